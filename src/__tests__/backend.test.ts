@@ -0,0 +1,121 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLocalBackend, GitBackend } from '../backend';
+import { applyHunk, extractHunkForLineRange } from '../diff';
+
+describe('createLocalBackend', () => {
+  let root: string;
+  let remote: string;
+  let work: string;
+  let backend: GitBackend;
+
+  const git = (dir: string, ...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      encoding: 'utf-8',
+    }).trim();
+
+  const commit = (file: string, content: string) => {
+    writeFileSync(join(work, file), content);
+    git(work, 'add', file);
+    git(work, 'commit', '--quiet', '-m', `Update ${file}`);
+    git(work, 'push', '--quiet', 'origin', 'main');
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'splice-test-'));
+    remote = join(root, 'remote.git');
+    work = join(root, 'work');
+    git(root, 'init', '--quiet', '--bare', '-b', 'main', remote);
+    git(root, 'clone', '--quiet', remote, work);
+    git(work, 'checkout', '--quiet', '-b', 'main');
+    commit('a.txt', 'one\ntwo\nthree\n');
+
+    backend = createLocalBackend(work, { committer: { name: 'Bot', email: 'bot@example.com' } });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const files = [
+    { path: 'a.txt', content: 'one\nTWO\nthree\n', mode: '100644' as const },
+    { path: 'run.sh', content: 'echo hi\n', mode: '100755' as const },
+  ];
+
+  it('commits the files on the base and pushes the branch', async () => {
+    expect(await backend.branchExists('splice/pr-1-2')).toBe(false);
+
+    const sha = await backend.commitChanges('splice/pr-1-2', files, 'main', 'Fix', 1, 'alice', 'alice@example.com');
+
+    expect(await backend.branchExists('splice/pr-1-2')).toBe(true);
+    expect(git(remote, 'rev-parse', 'splice/pr-1-2')).toBe(sha);
+    expect(git(remote, 'show', 'splice/pr-1-2:a.txt')).toBe('one\nTWO\nthree');
+    expect(git(remote, 'ls-tree', 'splice/pr-1-2', 'run.sh')).toMatch(/^100755 /);
+    expect(git(remote, 'log', '-1', '--format=%an <%ae>|%cn|%B', 'splice/pr-1-2')).toBe(
+      'alice <alice@example.com>|Bot|Fix\n\nSpliced from PR #1'
+    );
+  });
+
+  it('sets the mode of modified files', async () => {
+    const executable = [{ ...files[0], mode: '100755' as const }, files[1]];
+    await backend.commitChanges('splice/pr-1-2', executable, 'main', 'Fix', 1, 'alice', 'alice@example.com');
+
+    expect(git(remote, 'ls-tree', 'splice/pr-1-2', 'a.txt')).toMatch(/^100755 /);
+  });
+
+  it('knows whether a branch contains the base', async () => {
+    await backend.commitChanges('splice/pr-1-2', files, 'main', 'Fix', 1, 'alice', 'alice@example.com');
+    expect(await backend.isUpToDateWith('splice/pr-1-2', 'main')).toBe(true);
+
+    commit('b.txt', 'new\n');
+    expect(await backend.isUpToDateWith('splice/pr-1-2', 'main')).toBe(false);
+  });
+
+  it('adds commits on top of a parent', async () => {
+    const first = await backend.commitChanges('splice/pr-1-2', files, 'main', 'Fix', 1, 'alice', 'alice@example.com');
+    const parentSha = await backend.getBranchSha('splice/pr-1-2');
+    const second = await backend.commitChanges('splice/pr-1-2', files, 'main', 'Fix', 1, 'alice', 'alice@example.com', parentSha);
+
+    expect(parentSha).toBe(first);
+    expect(git(remote, 'rev-parse', `${second}^`)).toBe(first);
+  });
+
+  it('deletes branches', async () => {
+    await backend.commitChanges('splice/pr-1-2', files, 'main', 'Fix', 1, 'alice', 'alice@example.com');
+    await backend.deleteBranch('splice/pr-1-2');
+
+    expect(await backend.branchExists('splice/pr-1-2')).toBe(false);
+  });
+
+  it('commits hunks without context lines where the patch engine placed them', async () => {
+    // Lines added after `two`, as selected from a PR without the lines around them
+    const content = applyHunk('one\ntwo\nthree\n', {
+      oldStart: 2,
+      oldLines: 0,
+      newStart: 3,
+      newLines: 2,
+      content: '@@ -2,0 +3,2 @@\n+X\n+Y',
+    });
+    await backend.commitChanges('splice/pr-1-2', [{ path: 'a.txt', content, mode: '100644' }], 'main', 'Fix', 1, 'alice', 'alice@example.com');
+
+    expect(git(remote, 'show', 'splice/pr-1-2:a.txt')).toBe('one\ntwo\nX\nY\nthree');
+  });
+
+  it('commits removed lines selected on the left side of the diff', async () => {
+    // `two` selected as a removed line, without the lines around it
+    const patch = '@@ -2,1 +1,0 @@\n-two';
+    const content = applyHunk('one\ntwo\nthree\n', extractHunkForLineRange(patch, 2, 2, 'LEFT')!);
+    await backend.commitChanges('splice/pr-1-2', [{ path: 'a.txt', content, mode: '100644' }], 'main', 'Fix', 1, 'alice', 'alice@example.com');
+
+    expect(git(remote, 'show', 'splice/pr-1-2:a.txt')).toBe('one\nthree');
+  });
+
+  it('removes deleted files', async () => {
+    await backend.commitChanges('splice/pr-1-2', [{ path: 'a.txt', content: null, mode: '100644' }], 'main', 'Fix', 1, 'alice', 'alice@example.com');
+
+    expect(git(remote, 'ls-tree', '--name-only', 'splice/pr-1-2')).toBe('');
+  });
+});
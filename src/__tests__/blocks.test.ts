@@ -0,0 +1,124 @@
+import { findEnclosingBlock } from '../blocks';
+
+describe('findEnclosingBlock', () => {
+  const typescript = [
+    "import { a } from './a';",
+    '',
+    '/**',
+    ' * Parse the input',
+    ' */',
+    'export function parse(',
+    '  input: string,',
+    '  options: { strict: boolean }',
+    '): string[] {',
+    "  const open = '{';",
+    '  // Unbalanced } in a comment',
+    '  if (options.strict) {',
+    '    return [open];',
+    '  }',
+    '  return input.split(`${open}}`);',
+    '}',
+    '',
+    'class Parser {',
+    '  run(): void {',
+    '    items.forEach(item => {',
+    '      handle(item);',
+    '    });',
+    '  }',
+    '}',
+  ].join('\n');
+
+  it('finds the enclosing function with its signature and doc comment', () => {
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 13, 13, 'function')).toEqual({ startLine: 3, endLine: 16 });
+  });
+
+  it('finds the innermost block', () => {
+    // The comment right above the block belongs to it
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 13, 13, 'block')).toEqual({ startLine: 11, endLine: 14 });
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 15, 15, 'block')).toEqual({ startLine: 3, endLine: 16 });
+  });
+
+  it('finds methods and arrow functions but not classes', () => {
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 21, 21, 'function')).toEqual({ startLine: 20, endLine: 22 });
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 19, 19, 'function')).toEqual({ startLine: 19, endLine: 23 });
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 18, 18, 'function')).toBeNull();
+  });
+
+  it('returns null for lines outside any block', () => {
+    expect(findEnclosingBlock(typescript, 'src/parse.ts', 17, 17, 'block')).toBeNull();
+  });
+
+  it('parses JavaScript and TypeScript', () => {
+    const tsx = [
+      'const pattern = /[{]/;',
+      '',
+      '@Component()',
+      'export class Widget {',
+      '  // Rendered on every change',
+      '  render = () =>',
+      '    items.map(item => (',
+      '      <Item key={item.id} />',
+      '    ));',
+      '',
+      '  load(): void {',
+      '    if (ready) {',
+      '      start();',
+      '    } else {',
+      '      wait();',
+      '    }',
+      '  }',
+      '}',
+    ].join('\n');
+
+    // Braces in regular expressions and JSX don't open blocks, arrow functions don't need braces
+    expect(findEnclosingBlock(tsx, 'src/widget.tsx', 8, 8, 'function')).toEqual({ startLine: 7, endLine: 9 });
+    expect(findEnclosingBlock(tsx, 'src/widget.tsx', 6, 6, 'function')).toEqual({ startLine: 5, endLine: 9 });
+    expect(findEnclosingBlock(tsx, 'src/widget.tsx', 15, 15, 'block')).toEqual({ startLine: 14, endLine: 16 });
+    expect(findEnclosingBlock(tsx, 'src/widget.tsx', 13, 13, 'block')).toEqual({ startLine: 12, endLine: 16 });
+    // Decorators belong to the class
+    expect(findEnclosingBlock(tsx, 'src/widget.tsx', 10, 10, 'block')).toEqual({ startLine: 3, endLine: 18 });
+  });
+
+  it('reads other languages by their braces', () => {
+    const go = [
+      '// Load reads the file',
+      'func Load(path string) ([]byte, error) {',
+      '\tif path == "" {',
+      '\t\treturn nil, errors.New("no path {")',
+      '\t}',
+      '\treturn os.ReadFile(path)',
+      '}',
+    ].join('\n');
+
+    expect(findEnclosingBlock(go, 'load.go', 4, 4, 'function')).toEqual({ startLine: 1, endLine: 7 });
+    expect(findEnclosingBlock(go, 'load.go', 4, 4, 'block')).toEqual({ startLine: 3, endLine: 5 });
+  });
+
+  it('finds indentation blocks in Python', () => {
+    const python = [
+      'import os',
+      '',
+      '@cached',
+      'def load(',
+      '    path,',
+      '):',
+      '    if os.path.exists(path):',
+      '        return open(path).read()',
+      '',
+      '    return None',
+      '',
+      'print(load("a"))',
+    ].join('\n');
+
+    expect(findEnclosingBlock(python, 'load.py', 8, 8, 'function')).toEqual({ startLine: 3, endLine: 10 });
+    expect(findEnclosingBlock(python, 'load.py', 8, 8, 'block')).toEqual({ startLine: 7, endLine: 8 });
+    expect(findEnclosingBlock(python, 'load.py', 12, 12, 'function')).toBeNull();
+  });
+
+  it('finds indentation blocks in YAML', () => {
+    const yaml = ['jobs:', '  build:', '    steps:', '      - run: npm test', '  lint:', '    steps: []'].join('\n');
+
+    expect(findEnclosingBlock(yaml, '.github/workflows/ci.yml', 4, 4, 'block')).toEqual({ startLine: 3, endLine: 4 });
+    expect(findEnclosingBlock(yaml, '.github/workflows/ci.yml', 4, 4, 'function')).toBeNull();
+  });
+});
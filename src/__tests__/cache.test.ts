@@ -0,0 +1,24 @@
+import { createSpliceCache, memoize } from '../cache';
+
+describe('memoize', () => {
+  it('loads each key only once per cache', async () => {
+    const cache = createSpliceCache();
+    const load = jest.fn(async () => 'content');
+
+    expect(await memoize(cache, 'contents', 'o/r:a.ts@main', load)).toBe('content');
+    expect(await memoize(cache, 'contents', 'o/r:a.ts@main', load)).toBe('content');
+    expect(await memoize(cache, 'contents', 'o/r:b.ts@main', load)).toBe('content');
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats.cacheHits).toBe(1);
+  });
+
+  it('always loads without a cache', async () => {
+    const load = jest.fn(async () => null);
+
+    await memoize(undefined, 'contents', 'o/r:a.ts@main', load);
+    await memoize(undefined, 'contents', 'o/r:a.ts@main', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  parseConfig,
+  applyConfig,
+  applyExtractDefault,
+  fillBranchTemplate,
+  fillTemplate,
+  matchesBranch,
+} from '../config';
+
+describe('parseConfig', () => {
+  it('parses all settings', () => {
+    const { config, errors } = parseConfig(
+      [
+        'labels: [spliced, refactor]',
+        'reviewers: [alice]',
+        'draft: true',
+        "branch-template: 'split/{pr}/{id}'",
+        "title-template: '{title} (from #{pr})'",
+        'description-footer: Please review within a week.',
+        'allowed-bases: [main, release/*]',
+        'extract: hunk',
+      ].join('\n')
+    );
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual({
+      labels: ['spliced', 'refactor'],
+      reviewers: ['alice'],
+      draft: true,
+      branchTemplate: 'split/{pr}/{id}',
+      titleTemplate: '{title} (from #{pr})',
+      descriptionFooter: 'Please review within a week.',
+      allowedBases: ['main', 'release/*'],
+      extract: 'hunk',
+    });
+  });
+
+  it('reports unknown and invalid settings', () => {
+    const { config, errors } = parseConfig(
+      ['labels: spliced', 'draft: yes please', 'branch-template: split/{pr}', 'color: red', 'reviewers: [bob]'].join('\n')
+    );
+
+    expect(errors).toEqual([
+      '`labels` must be a list of labels',
+      '`draft` must be true or false',
+      '`branch-template` must be a branch name containing {id}',
+      'Unknown setting `color`',
+    ]);
+    expect(config).toEqual({ reviewers: ['bob'] });
+  });
+
+  it('reports invalid YAML', () => {
+    expect(parseConfig('labels: [unclosed').errors[0]).toMatch(/^Invalid YAML/);
+    expect(parseConfig('- a list').errors).toEqual(['Expected a mapping of settings']);
+  });
+
+  it('accepts an empty file', () => {
+    expect(parseConfig('')).toEqual({ config: {}, errors: [] });
+  });
+});
+
+describe('applyConfig', () => {
+  it('fills in defaults that the options do not set', () => {
+    const config = { labels: ['spliced'], reviewers: ['alice'], draft: true };
+
+    expect(applyConfig({ title: 'Fix' }, config)).toEqual({
+      title: 'Fix',
+      labels: ['spliced'],
+      reviewers: ['alice'],
+      draft: true,
+    });
+    expect(applyConfig({ labels: ['bug'], draft: false }, config)).toEqual({
+      labels: ['bug'],
+      reviewers: ['alice'],
+      draft: false,
+    });
+  });
+});
+
+describe('applyExtractDefault', () => {
+  it('uses the default mode unless the selection chooses one', () => {
+    expect(applyExtractDefault({}, { extract: 'hunk' })).toEqual({ entireHunk: true });
+    expect(applyExtractDefault({ entireFile: true }, { extract: 'hunk' })).toEqual({ entireFile: true });
+    expect(applyExtractDefault({ entireBlock: true }, { extract: 'function' })).toEqual({ entireBlock: true });
+    expect(applyExtractDefault({}, { extract: 'function' })).toEqual({ entireFunction: true });
+    expect(applyExtractDefault({}, { extract: 'lines' })).toEqual({});
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces known placeholders', () => {
+    expect(fillTemplate('split/{pr}/{id}-{other}', { pr: 12, id: 'imports' })).toBe('split/12/imports-{other}');
+  });
+});
+
+describe('fillBranchTemplate', () => {
+  it('slugifies the filled branch name', () => {
+    expect(fillBranchTemplate('split/{pr}-{id}', 12, 'My Refactor!')).toBe('split/12-my-refactor');
+    expect(fillBranchTemplate('split/{pr}-{id}', 12, 'review-34')).toBe('split/12-review-34');
+    expect(fillBranchTemplate('split/{id}', 12, '../main')).toBe('split/main');
+  });
+});
+
+describe('matchesBranch', () => {
+  it('matches names and patterns', () => {
+    expect(matchesBranch('main', ['main'])).toBe(true);
+    expect(matchesBranch('release/1.2', ['main', 'release/*'])).toBe(true);
+    expect(matchesBranch('mainline', ['main'])).toBe(false);
+    expect(matchesBranch('release.x', ['release.*'])).toBe(true);
+    expect(matchesBranch('releasex', ['release.*'])).toBe(false);
+  });
+});
@@ -1,4 +1,20 @@
-import { extractHunkForLineRange, applyHunk } from '../diff';
+import {
+  extractHunkForLineRange,
+  extractEntireHunkForLine,
+  extractHunksForLineRange,
+  findMatchingHunks,
+  applyHunk,
+  applyPatch,
+  mergeChanges,
+  compareChanges,
+  extractFilePatch,
+  formatPatch,
+  mapLineRange,
+  findSharedHunks,
+  reverseHunk,
+  buildFileUpdates,
+} from '../diff';
+import { ForgeAdapter } from '../forge';
 
 describe('extractHunkForLineRange', () => {
   const samplePatch = `@@ -10,7 +10,9 @@
@@ -31,9 +47,9 @@ describe('extractHunkForLineRange', () => {
     expect(hunk!.content).toContain('+  const w = 5;');
     // Should also include the deletion that was replaced
     expect(hunk!.content).toContain('-  const y = 2;');
-    // Should NOT include context lines outside selection
-    expect(hunk!.content).not.toContain('function foo()');
-    expect(hunk!.content).not.toContain('return x + y');
+    // Keeps the unchanged lines around the selection to place it by
+    expect(hunk!.content).toContain(' function foo()');
+    expect(hunk!.content).toContain(' return x + y');
   });
 
   it('extracts single line', () => {
@@ -42,6 +58,21 @@ describe('extractHunkForLineRange', () => {
     expect(hunk).not.toBeNull();
     expect(hunk!.content).toContain('+  const z = 4;');
     expect(hunk!.newLines).toBe(1);
+    // Inserted after old line 12, like a unified diff with an empty old side
+    expect(hunk!.oldStart).toBe(12);
+    expect(hunk!.oldLines).toBe(0);
+  });
+
+  it('produces a hunk that applies to the base', () => {
+    const base = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'function foo() {', '  const x = 1;', '  const y = 2;', '  return x + y;', '}'].join('\n');
+    const hunk = extractHunkForLineRange(samplePatch, 13, 13);
+
+    expect(applyHunk(base, hunk!).split('\n').slice(10, 14)).toEqual([
+      '  const x = 1;',
+      '  const y = 2;',
+      '  const z = 4;',
+      '  return x + y;',
+    ]);
   });
 
   it('returns null for lines outside any hunk', () => {
@@ -81,6 +112,214 @@ describe('extractHunkForLineRange', () => {
     expect(hunk!.content).toContain('   const x = 1;');
     expect(hunk!.content).toContain('+  const y = 3;');
   });
+
+  const deletionPatch = `@@ -5,6 +5,2 @@
+ const a = 1;
+-function unused() {
+-  return 0;
+-}
+-
+ export { a };`;
+
+  it('selects removed lines by their line in the base', () => {
+    const hunk = extractHunkForLineRange(deletionPatch, 6, 9, 'LEFT');
+
+    expect(hunk).toEqual({
+      oldStart: 5,
+      oldLines: 6,
+      newStart: 5,
+      newLines: 2,
+      content: '@@ -5,6 +5,2 @@\n const a = 1;\n-function unused() {\n-  return 0;\n-}\n-\n export { a };',
+    });
+    const base = ['', '', '', '', 'const a = 1;', 'function unused() {', '  return 0;', '}', '', 'export { a };'].join('\n');
+    expect(applyHunk(base, hunk!).split('\n').slice(4)).toEqual(['const a = 1;', 'export { a };']);
+  });
+
+  it('only finds lines of the new file on the right side', () => {
+    // Line 6 of the new file is the unchanged export
+    expect(extractHunkForLineRange(deletionPatch, 6, 6)?.content).toBe('@@ -10,1 +6,1 @@\n export { a };');
+    expect(extractHunkForLineRange(deletionPatch, 7, 7)).toBeNull();
+  });
+
+  it('selects ranges from the left to the right side', () => {
+    // From the removed `const y = 2;` (old line 12) to the added `const z = 4;` (new line 13)
+    const hunk = extractHunkForLineRange(samplePatch, 12, 13, 'LEFT', 'RIGHT');
+
+    expect(hunk!.content).toBe(
+      '@@ -10,3 +10,4 @@\n function foo() {\n   const x = 1;\n-  const y = 2;\n+  const y = 3;\n+  const z = 4;'
+    );
+  });
+
+  it('drops excluded added lines', () => {
+    const hunk = extractHunkForLineRange(samplePatch, 10, 16, 'RIGHT', 'RIGHT', {
+      lines: [{ startLine: 13, endLine: 13 }],
+      patterns: [],
+    });
+
+    expect(hunk!.content).toBe(
+      '@@ -10,5 +10,6 @@\n function foo() {\n   const x = 1;\n-  const y = 2;\n+  const y = 3;\n+  const w = 5;\n   return x + y;\n }'
+    );
+  });
+
+  it('keeps excluded removed lines as context', () => {
+    const base = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'function foo() {', '  const x = 1;', '  const y = 2;', '  return x + y;', '}'].join('\n');
+    const hunk = extractHunkForLineRange(samplePatch, 12, 14, 'RIGHT', 'RIGHT', { lines: [], patterns: ['/y = 2/'] });
+
+    expect(hunk).toMatchObject({ oldStart: 10, oldLines: 5, newStart: 10, newLines: 8 });
+    expect(applyHunk(base, hunk!).split('\n').slice(11, 16)).toEqual([
+      '  const y = 2;',
+      '  const y = 3;',
+      '  const z = 4;',
+      '  const w = 5;',
+      '  return x + y;',
+    ]);
+  });
+
+  it('returns null when every change is excluded', () => {
+    expect(extractHunkForLineRange(samplePatch, 13, 13, 'RIGHT', 'RIGHT', { lines: [], patterns: ['z = 4'] })).toBeNull();
+  });
+});
+
+describe('extractEntireHunkForLine', () => {
+  it('finds the hunk of a line in the base', () => {
+    const patch = '@@ -1,2 +1,1 @@\n a\n-b\n@@ -20,1 +19,2 @@\n x\n+y';
+
+    expect(extractEntireHunkForLine(patch, 2, 'LEFT')?.oldStart).toBe(1);
+    expect(extractEntireHunkForLine(patch, 2)).toBeNull();
+    expect(extractEntireHunkForLine(patch, 20)?.oldStart).toBe(20);
+  });
+});
+
+describe('findMatchingHunks', () => {
+  it('keeps the hunks with an added or removed line matching the pattern', () => {
+    const patch = '@@ -1,2 +1,2 @@\n oldName()\n-a\n+b\n@@ -10,1 +10,1 @@\n-oldName()\n+newName()';
+
+    const hunks = findMatchingHunks(patch, /oldName/);
+
+    // Context lines don't count
+    expect(hunks.map(h => h.oldStart)).toEqual([10]);
+  });
+});
+
+describe('extractHunksForLineRange', () => {
+  it('extracts the changed lines of every hunk in the range', () => {
+    const patch = '@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n@@ -10,2 +10,3 @@\n x\n+y\n z\n@@ -30,1 +31,1 @@\n-p\n+P';
+
+    const hunks = extractHunksForLineRange(patch, 2, 12);
+
+    expect(hunks.map(h => h.content)).toEqual(['@@ -1,3 +1,3 @@\n a\n-b\n+B\n c', '@@ -10,2 +10,3 @@\n x\n+y\n z']);
+  });
+});
+
+describe('extractFilePatch', () => {
+  const rawDiff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,2 @@
+ keep
+-old
++new
+diff --git a/logo.png b/logo.png
+new file mode 100644
+index 0000000..3333333
+Binary files /dev/null and b/logo.png differ
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+index 4444444..0000000
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+`;
+
+  it('extracts the patch of one file starting at its first hunk', () => {
+    expect(extractFilePatch(rawDiff, 'src/a.ts')).toBe('@@ -1,2 +1,2 @@\n keep\n-old\n+new');
+  });
+
+  it('finds deleted files by their old path', () => {
+    expect(extractFilePatch(rawDiff, 'gone.ts')).toBe('@@ -1 +0,0 @@\n-bye');
+  });
+
+  it('returns null for binary or unknown files', () => {
+    expect(extractFilePatch(rawDiff, 'logo.png')).toBeNull();
+    expect(extractFilePatch(rawDiff, 'missing.ts')).toBeNull();
+  });
+});
+
+describe('reverseHunk', () => {
+  const hunk = {
+    oldStart: 2,
+    oldLines: 3,
+    newStart: 2,
+    newLines: 4,
+    content: '@@ -2,3 +2,4 @@ function foo() {\n a\n-b\n+B\n+C\n c',
+  };
+
+  it('swaps the sides of the hunk', () => {
+    expect(reverseHunk(hunk)).toEqual({
+      oldStart: 2,
+      oldLines: 4,
+      newStart: 2,
+      newLines: 3,
+      content: '@@ -2,4 +2,3 @@ function foo() {\n a\n-B\n-C\n+b\n c',
+    });
+  });
+
+  it('undoes the hunk when applied to the new content', () => {
+    const newContent = applyHunk('x\na\nb\nc\n', hunk);
+    expect(applyHunk(newContent, reverseHunk(hunk))).toBe('x\na\nb\nc\n');
+  });
+
+  it('keeps missing newline markers with their line', () => {
+    const end = { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, content: '@@ -1,1 +1,1 @@\n-a\n\\ No newline at end of file\n+b' };
+    expect(reverseHunk(end).content).toBe('@@ -1,1 +1,1 @@\n-b\n+a\n\\ No newline at end of file');
+  });
+});
+
+describe('mapLineRange', () => {
+  const patch = [
+    '@@ -1,3 +1,4 @@',
+    ' a',
+    '+x',
+    ' b',
+    ' c',
+    '@@ -10,3 +11,4 @@',
+    ' j',
+    '-k',
+    '+k1',
+    '+k2',
+    ' l',
+    '@@ -20,2 +22,1 @@',
+    ' t',
+    '-u',
+  ].join('\n');
+
+  it('shifts unchanged lines between hunks', () => {
+    expect(mapLineRange(patch, 5, 8)).toEqual({ startLine: 6, endLine: 9, changed: false });
+  });
+
+  it('maps context lines inside hunks', () => {
+    expect(mapLineRange(patch, 2, 3)).toEqual({ startLine: 3, endLine: 4, changed: false });
+  });
+
+  it('reports lines added inside the range', () => {
+    expect(mapLineRange(patch, 1, 2)).toEqual({ startLine: 1, endLine: 3, changed: true });
+  });
+
+  it('maps removed lines to their replacement', () => {
+    expect(mapLineRange(patch, 11, 11)).toEqual({ startLine: 12, endLine: 13, changed: true });
+  });
+
+  it('returns an empty range when the selected lines were removed', () => {
+    const range = mapLineRange(patch, 21, 21);
+    expect(range.changed).toBe(true);
+    expect(range.endLine).toBeLessThan(range.startLine);
+  });
+
+  it('shifts lines after the last hunk', () => {
+    expect(mapLineRange(patch, 30, 31)).toEqual({ startLine: 31, endLine: 32, changed: false });
+  });
 });
 
 describe('applyHunk', () => {
@@ -146,3 +385,323 @@ new line
 line 3`);
   });
 });
+
+describe('applyPatch', () => {
+  const base = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n');
+
+  it('applies a hunk that drifted by an offset', () => {
+    const hunk = {
+      oldStart: 2,
+      oldLines: 3,
+      newStart: 2,
+      newLines: 3,
+      content: `@@ -2,3 +2,3 @@
+ five
+-six
++SIX
+ seven`,
+    };
+
+    const result = applyPatch(base, [hunk]);
+    expect(result.success).toBe(true);
+    expect(result.content.split('\n')[5]).toBe('SIX');
+  });
+
+  it('tracks offsets between hunks', () => {
+    const hunks = [
+      {
+        oldStart: 2,
+        oldLines: 1,
+        newStart: 2,
+        newLines: 3,
+        content: `@@ -2,1 +2,3 @@
+ two
++two and a half
++two and three quarters`,
+      },
+      {
+        oldStart: 7,
+        oldLines: 1,
+        newStart: 9,
+        newLines: 0,
+        content: `@@ -7,1 +9,0 @@
+-seven`,
+      },
+    ];
+
+    const result = applyPatch(base, hunks);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      ['one', 'two', 'two and a half', 'two and three quarters', 'three', 'four', 'five', 'six', 'eight'].join('\n')
+    );
+  });
+
+  it('ignores mismatching outer context lines with fuzz', () => {
+    const hunk = {
+      oldStart: 3,
+      oldLines: 3,
+      newStart: 3,
+      newLines: 3,
+      content: `@@ -3,3 +3,3 @@
+ changed
+-four
++FOUR
+ five`,
+    };
+
+    const result = applyPatch(base, [hunk]);
+    expect(result.success).toBe(true);
+    expect(result.content.split('\n')[3]).toBe('FOUR');
+  });
+
+  it('reports conflicting lines when deletions do not match', () => {
+    const hunk = {
+      oldStart: 4,
+      oldLines: 2,
+      newStart: 4,
+      newLines: 1,
+      content: `@@ -4,2 +4,1 @@
+-not four
+-five
++replacement`,
+    };
+
+    const result = applyPatch(base, [hunk]);
+    expect(result.success).toBe(false);
+    expect(result.content).toBe(base);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].lines).toEqual([{ lineNumber: 4, expected: 'not four', actual: 'four' }]);
+  });
+
+  it('creates new files from an empty base', () => {
+    const hunk = {
+      oldStart: 0,
+      oldLines: 0,
+      newStart: 1,
+      newLines: 2,
+      content: `@@ -0,0 +1,2 @@
++first
++second`,
+    };
+
+    expect(applyPatch('', [hunk]).content).toBe('first\nsecond');
+  });
+
+  it('refuses context-free additions past the end of the file', () => {
+    const hunk = {
+      oldStart: 20,
+      oldLines: 0,
+      newStart: 21,
+      newLines: 1,
+      content: `@@ -20,0 +21,1 @@
++late`,
+    };
+
+    expect(applyPatch(base, [hunk]).success).toBe(false);
+  });
+
+  it('places selected additions by their context when the base drifted', () => {
+    const patch = '@@ -1,5 +1,7 @@\n a\n b\n+X\n+Y\n c\n d\n e';
+    const hunk = extractHunkForLineRange(patch, 3, 4);
+
+    const result = applyPatch(['new1', 'new2', 'a', 'b', 'c', 'd', 'e'].join('\n'), [hunk!]);
+
+    expect(result.success).toBe(true);
+    expect(result.content.split('\n')).toEqual(['new1', 'new2', 'a', 'b', 'X', 'Y', 'c', 'd', 'e']);
+  });
+});
+
+describe('buildFileUpdates', () => {
+  const contents: Record<string, string> = { main: 'new1\nnew2\na\nb', 'pr-base': 'a\nb' };
+  const forge = { getFileContent: async (_path: string, ref: string) => contents[ref] } as unknown as ForgeAdapter;
+  const change = {
+    path: 'a.txt',
+    status: 'modified' as const,
+    hunks: [{ oldStart: 1, oldLines: 0, newStart: 2, newLines: 1, content: '@@ -1,0 +2,1 @@\n+X' }],
+  };
+
+  it('reports additions without context as conflicts when the file changed since the PR base', async () => {
+    const { files, conflicts } = await buildFileUpdates(forge, [change], 'main', 'pr-base');
+
+    expect(files).toEqual([]);
+    expect(conflicts).toEqual([{ path: 'a.txt', hunks: [{ hunk: change.hunks[0], lines: [] }] }]);
+  });
+
+  it('places additions without context by their line when the file is unchanged', async () => {
+    const { files } = await buildFileUpdates(forge, [change], 'pr-base', 'pr-base');
+
+    expect(files).toEqual([{ path: 'a.txt', content: 'a\nX\nb', mode: '100644' }]);
+  });
+
+  it('keeps the mode of removed files from the base', async () => {
+    const base = {
+      getFileContent: async () => 'echo hi',
+      getFileMode: async (path: string) => (path === 'run.sh' ? '100755' : '100644'),
+    } as unknown as ForgeAdapter;
+    const removal = { oldStart: 1, oldLines: 1, newStart: 0, newLines: 0, content: '@@ -1,1 +0,0 @@\n-echo hi' };
+
+    const { files } = await buildFileUpdates(
+      base,
+      [
+        { path: 'run.sh', status: 'removed', hunks: [removal] },
+        { path: 'tool', status: 'removed', hunks: [] },
+      ],
+      'main'
+    );
+
+    expect(files).toEqual([
+      { path: 'run.sh', content: null, mode: '100755' },
+      { path: 'tool', content: null, mode: '100644' },
+    ]);
+  });
+
+  it('keeps the content of mode-only changes', async () => {
+    const { files } = await buildFileUpdates(
+      forge,
+      [{ path: 'a.txt', status: 'modified', hunks: [], mode: '100755', oldMode: '100644' }],
+      'main'
+    );
+
+    expect(files).toEqual([{ path: 'a.txt', content: 'new1\nnew2\na\nb', mode: '100755' }]);
+  });
+});
+
+describe('mergeChanges', () => {
+  const hunkAt = (oldStart: number, oldLines: number, content: string) => ({
+    oldStart,
+    oldLines,
+    newStart: oldStart,
+    newLines: oldLines,
+    content,
+  });
+
+  it('combines hunks for the same file and sorts them', () => {
+    const merged = mergeChanges([
+      { path: 'a.ts', hunks: [hunkAt(20, 1, 'second')] },
+      { path: 'b.ts', hunks: [hunkAt(1, 1, 'other')] },
+      { path: 'a.ts', hunks: [hunkAt(5, 2, 'first')] },
+    ]);
+
+    expect(merged.map(c => c.path)).toEqual(['a.ts', 'b.ts']);
+    expect(merged[0].hunks.map(h => h.content)).toEqual(['first', 'second']);
+  });
+
+  it('keeps the status of renamed files', () => {
+    const merged = mergeChanges([
+      { path: 'new.sh', hunks: [hunkAt(1, 1, 'one')], status: 'renamed', previousPath: 'old.sh', mode: '100755' },
+      { path: 'new.sh', hunks: [hunkAt(9, 1, 'two')], status: 'renamed', previousPath: 'old.sh', mode: '100755' },
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ status: 'renamed', previousPath: 'old.sh', mode: '100755' });
+    expect(merged[0].hunks).toHaveLength(2);
+  });
+
+  it('drops identical hunks', () => {
+    const merged = mergeChanges([
+      { path: 'a.ts', hunks: [hunkAt(5, 2, 'same')] },
+      { path: 'a.ts', hunks: [hunkAt(5, 2, 'same')] },
+    ]);
+
+    expect(merged[0].hunks).toHaveLength(1);
+  });
+
+  it('rejects overlapping hunks', () => {
+    expect(() =>
+      mergeChanges([
+        { path: 'a.ts', hunks: [hunkAt(5, 4, 'one')] },
+        { path: 'a.ts', hunks: [hunkAt(7, 2, 'two')] },
+      ])
+    ).toThrow(/Overlapping selections in a.ts/);
+  });
+
+  it('trims the context shared by neighbouring selections', () => {
+    const patch = '@@ -1,5 +1,7 @@\n a\n b\n+X\n c\n+Y\n d\n e';
+    const first = extractHunkForLineRange(patch, 3, 3)!;
+    const second = extractHunkForLineRange(patch, 5, 5)!;
+
+    const [merged] = mergeChanges([
+      { path: 'a.ts', hunks: [first] },
+      { path: 'a.ts', hunks: [second] },
+    ]);
+
+    expect(merged.hunks.map(h => h.content)).toEqual(['@@ -1,2 +1,3 @@\n a\n b\n+X', '@@ -3,3 +4,4 @@\n c\n+Y\n d\n e']);
+    expect(applyPatch('a\nb\nc\nd\ne', merged.hunks).content).toBe('a\nb\nX\nc\nY\nd\ne');
+  });
+});
+
+describe('compareChanges', () => {
+  const change = (path: string, oldStart: number, lines: string[]) => ({
+    path,
+    hunks: [
+      {
+        oldStart,
+        oldLines: lines.filter(l => !l.startsWith('+')).length,
+        newStart: oldStart,
+        newLines: lines.filter(l => !l.startsWith('-')).length,
+        content: [`@@ -${oldStart} +${oldStart} @@`, ...lines].join('\n'),
+      },
+    ],
+  });
+
+  it('detects identical changes regardless of context', () => {
+    const ours = change('a.ts', 10, ['-old', '+new']);
+    const theirs = change('a.ts', 8, [' ctx', ' ctx', '-old', '+new', ' ctx']);
+    expect(compareChanges([ours], [theirs])).toBe('identical');
+  });
+
+  it('detects overlapping changes', () => {
+    const ours = change('a.ts', 10, ['-old', '+new']);
+    const theirs = change('a.ts', 9, [' ctx', '-old', '+new', '+more']);
+    expect(compareChanges([ours], [theirs])).toBe('overlapping');
+  });
+
+  it('treats changes to different lines as distinct', () => {
+    const ours = change('a.ts', 10, ['-old', '+new']);
+    const theirs = change('a.ts', 50, ['-old', '+new']);
+    expect(compareChanges([ours], [theirs])).toBe('distinct');
+    expect(compareChanges([ours], [change('b.ts', 10, ['-old', '+new'])])).toBe('distinct');
+  });
+});
+
+describe('findSharedHunks', () => {
+  const spliced = { oldStart: 10, oldLines: 1, newStart: 10, newLines: 1, content: '@@ -10,1 +10,1 @@\n-old\n+new' };
+  const other = { oldStart: 50, oldLines: 1, newStart: 50, newLines: 2, content: '@@ -50,1 +50,2 @@\n x\n+added' };
+
+  it('finds the hunks that share changes with another set', () => {
+    const prHunk = { ...spliced, oldStart: 9, oldLines: 2, newLines: 2, content: '@@ -9,2 +9,2 @@\n ctx\n-old\n+new' };
+    const pr = [{ path: 'a.ts', hunks: [prHunk, other] }];
+
+    expect(findSharedHunks(pr, [{ path: 'a.ts', hunks: [spliced] }])).toEqual([{ path: 'a.ts', hunk: prHunk }]);
+    expect(findSharedHunks(pr, [{ path: 'b.ts', hunks: [spliced] }])).toEqual([]);
+  });
+});
+
+describe('formatPatch', () => {
+  const hunk = { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, content: '@@ -1,1 +1,1 @@\n-old\n+new' };
+
+  it('formats modified files', () => {
+    expect(formatPatch([{ path: 'a.ts', hunks: [hunk] }])).toBe(
+      'diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1,1 +1,1 @@\n-old\n+new\n'
+    );
+  });
+
+  it('formats renames and deletions', () => {
+    const patch = formatPatch(
+      [
+        { path: 'new.ts', previousPath: 'old.ts', status: 'renamed', hunks: [] },
+        { path: 'gone.sh', status: 'removed', hunks: [{ ...hunk, content: '@@ -1,1 +0,0 @@\n-old' }] },
+      ],
+      [{ path: 'gone.sh', content: null, mode: '100755' }]
+    );
+
+    expect(patch).toContain('diff --git a/old.ts b/new.ts\nrename from old.ts\nrename to new.ts\n');
+    expect(patch).toContain('deleted file mode 100755\n--- a/gone.sh\n+++ /dev/null\n');
+  });
+
+  it('formats mode changes', () => {
+    const patch = formatPatch([{ path: 'run.sh', status: 'modified', hunks: [], mode: '100755', oldMode: '100644' }]);
+
+    expect(patch).toBe('diff --git a/run.sh b/run.sh\nold mode 100644\nnew mode 100755\n');
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as github from '@actions/github';
+import { createGitHubAdapter } from '../github';
+import { createApiBackend } from '../backend';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'github', name), 'utf-8');
+
+/**
+ * Create an Octokit instance that answers with recorded responses, keyed by path
+ */
+function mockOctokit(routes: Record<string, string>) {
+  const fetch = async (url: string) => {
+    const path = new URL(url).pathname;
+    const body = routes[path];
+    if (body === undefined) {
+      return new Response('{"message":"Not Found"}', { status: 404, headers: { 'content-type': 'application/json' } });
+    }
+    const contentType = body.startsWith('diff --git') ? 'text/plain' : 'application/json';
+    return new Response(body, { status: 200, headers: { 'content-type': contentType } });
+  };
+
+  return github.getOctokit('token', { request: { fetch } });
+}
+
+describe('createGitHubAdapter', () => {
+  it('lists PR files, taking missing patches from the full diff', async () => {
+    const octokit = mockOctokit({
+      '/repos/acme/widgets/pulls/42/files': fixture('pull_files.json'),
+      '/repos/acme/widgets/pulls/42': fixture('pull.diff'),
+    });
+    const forge = createGitHubAdapter(octokit, 'acme', 'widgets', createApiBackend(octokit, 'acme', 'widgets'));
+
+    const files = await forge.listPullRequestFiles(42);
+
+    expect(files.map(f => [f.path, f.status, f.previousPath])).toEqual([
+      ['src/parser.ts', 'modified', undefined],
+      ['src/generated.ts', 'added', undefined],
+      ['src/helpers.ts', 'renamed', 'src/util.ts'],
+    ]);
+    expect(files[1].patch).toBe('@@ -0,0 +1,2 @@\n+// Generated\n+export const generated = true;');
+    // Pure renames have no patch
+    expect(files[2].patch).toBeNull();
+  });
+
+  it('lists review comments as comment contexts', async () => {
+    const octokit = mockOctokit({ '/repos/acme/widgets/pulls/42/comments': fixture('review_comments.json') });
+    const forge = createGitHubAdapter(octokit, 'acme', 'widgets', createApiBackend(octokit, 'acme', 'widgets'));
+
+    const [comment] = await forge.listReviewComments(42);
+
+    expect(comment).toMatchObject({
+      commentId: 1521,
+      prNumber: 42,
+      path: 'src/parser.ts',
+      startLine: 1,
+      endLine: 2,
+      commitId: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+      authorLogin: 'octocat',
+      authorEmail: '1+octocat@users.noreply.github.com',
+    });
+  });
+});
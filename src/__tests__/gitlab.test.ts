@@ -0,0 +1,255 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createGitLabAdapter, createGitLabBackend, noteToCommentContext, GitLabClient } from '../gitlab';
+
+const fixture = (name: string) => JSON.parse(readFileSync(join(__dirname, 'fixtures', 'gitlab', name), 'utf-8'));
+
+const client: GitLabClient = { apiUrl: 'https://gitlab.example.com/api/v4', token: 'secret', projectId: 'acme/widgets' };
+const project = '/projects/acme%2Fwidgets';
+
+interface Route {
+  body?: unknown;
+  status?: number;
+  nextPage?: string;
+}
+
+/**
+ * Replace fetch with recorded responses, keyed by method and path
+ */
+function mockGitLab(routes: Record<string, Route>) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+    const path = String(input).substring(client.apiUrl.length);
+    const route = routes[`${init?.method || 'GET'} ${path}`];
+    if (!route) {
+      return new Response('{"message":"404 Not Found"}', { status: 404 });
+    }
+
+    const body = typeof route.body === 'string' ? route.body : JSON.stringify(route.body ?? {});
+    return new Response(body, {
+      status: route.status || 200,
+      headers: route.nextPage ? { 'x-next-page': route.nextPage } : {},
+    });
+  });
+}
+
+const requestBody = (fetchMock: jest.SpyInstance, method: string, path: string) => {
+  const call = fetchMock.mock.calls.find(
+    ([input, init]) => String(input) === `${client.apiUrl}${path}` && init?.method === method
+  );
+  return call ? JSON.parse(call[1].body) : undefined;
+};
+
+describe('createGitLabAdapter', () => {
+  const forge = createGitLabAdapter(client, createGitLabBackend(client));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps merge request details', async () => {
+    mockGitLab({ [`GET ${project}/merge_requests/42`]: { body: fixture('merge_request.json') } });
+
+    expect(await forge.getPullRequest(42)).toEqual({
+      title: 'Refactor the parser',
+      baseBranch: 'main',
+      headBranch: 'refactor-parser',
+      headSha: '9f4c1e2a7b3d5e6f8a9b0c1d2e3f4a5b6c7d8e9f',
+      baseSha: 'b5d6e7b1613fca24d250fa8e5bc7bcc3dd6002ef',
+      fromFork: false,
+    });
+  });
+
+  it('lists the files of all pages of merge request diffs', async () => {
+    mockGitLab({
+      [`GET ${project}/merge_requests/42/diffs?per_page=100&page=1`]: {
+        body: fixture('merge_request_diffs_page1.json'),
+        nextPage: '2',
+      },
+      [`GET ${project}/merge_requests/42/diffs?per_page=100&page=2`]: {
+        body: fixture('merge_request_diffs_page2.json'),
+      },
+    });
+
+    const files = await forge.listPullRequestFiles(42);
+
+    expect(files.map(f => [f.path, f.status, f.previousPath])).toEqual([
+      ['src/parser.ts', 'modified', undefined],
+      ['scripts/build.sh', 'added', undefined],
+      ['src/helpers.ts', 'renamed', 'src/util.ts'],
+      ['src/legacy.ts', 'removed', undefined],
+    ]);
+    expect(files[0].patch).toBe("@@ -1,3 +1,4 @@\n import { a } from './a';\n+import { b } from './b';\n \n export function parse() {");
+    expect(files[2].patch).toBeNull();
+  });
+
+  it('compares commits directly', async () => {
+    mockGitLab({
+      [`GET ${project}/repository/compare?from=new456&to=old123`]: { body: { commits: [], diffs: [] } },
+      [`GET ${project}/repository/compare?from=old123&to=new456&straight=true`]: {
+        body: { commits: [{ id: 'a' }, { id: 'new456' }], diffs: fixture('merge_request_diffs_page1.json') },
+      },
+    });
+
+    const comparison = await forge.compareCommits('old123', 'new456');
+
+    expect(comparison?.commits).toBe(2);
+    expect(comparison?.files.map(f => f.path)).toEqual(['src/parser.ts', 'scripts/build.sh']);
+  });
+
+  it("doesn't compare commits that don't build on the base", async () => {
+    // After a force-push, the old head has commits the new one doesn't
+    const fetchMock = mockGitLab({
+      [`GET ${project}/repository/compare?from=new456&to=old123`]: {
+        body: { commits: [{ id: 'old123' }], diffs: fixture('merge_request_diffs_page1.json') },
+      },
+    });
+
+    expect(await forge.compareCommits('old123', 'new456')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists the files changed since the merge base', async () => {
+    mockGitLab({
+      [`GET ${project}/repository/compare?from=main&to=old123`]: {
+        body: { commits: [{ id: 'old123' }], diffs: fixture('merge_request_diffs_page1.json') },
+      },
+    });
+
+    const files = await forge.listChangedFiles('main', 'old123');
+
+    expect(files.map(f => [f.path, f.status])).toEqual([
+      ['src/parser.ts', 'modified'],
+      ['scripts/build.sh', 'added'],
+    ]);
+  });
+
+  it('lists notes on the diff as comments', async () => {
+    mockGitLab({
+      [`GET ${project}/merge_requests/42/discussions?per_page=100&page=1`]: { body: fixture('discussions.json') },
+    });
+
+    const comments = await forge.listReviewComments(42);
+
+    expect(comments.map(c => c.commentId)).toEqual([1126, 1127]);
+    expect(comments[0]).toMatchObject({
+      prNumber: 42,
+      path: 'src/parser.ts',
+      startLine: 1,
+      endLine: 4,
+      body: 'splice-bot group:imports',
+      commitId: '9f4c1e2a7b3d5e6f8a9b0c1d2e3f4a5b6c7d8e9f',
+      authorLogin: 'alice',
+      authorEmail: '7-alice@users.noreply.gitlab.com',
+      threadId: '6a9c1750b37d513a43987b574953fceb50b03ce7',
+    });
+    expect(comments[1]).toMatchObject({ startLine: 4, endLine: 4 });
+  });
+
+  it('creates draft merge requests', async () => {
+    const fetchMock = mockGitLab({
+      [`POST ${project}/merge_requests`]: { body: { iid: 43, web_url: 'https://gitlab.com/acme/widgets/-/merge_requests/43' } },
+    });
+
+    const mr = await forge.createPullRequest('Extract imports', 'Body', 'splice/pr-42-1126', 'main', true);
+
+    expect(mr).toEqual({ number: 43, url: 'https://gitlab.com/acme/widgets/-/merge_requests/43' });
+    expect(requestBody(fetchMock, 'POST', `${project}/merge_requests`)).toEqual({
+      title: 'Draft: Extract imports',
+      description: 'Body',
+      source_branch: 'splice/pr-42-1126',
+      target_branch: 'main',
+    });
+  });
+
+  it('replies in the discussion of a note', async () => {
+    const event = fixture('note_event.json');
+    const context = noteToCommentContext(
+      { id: event.object_attributes.id, body: event.object_attributes.note, author: event.user, position: event.object_attributes.position },
+      event.object_attributes.discussion_id,
+      event.merge_request.iid
+    );
+    const path = `${project}/merge_requests/42/discussions/${event.object_attributes.discussion_id}/notes`;
+    const fetchMock = mockGitLab({ [`POST ${path}`]: { status: 201 } });
+
+    await forge.replyToComment(context, 'Done');
+
+    expect(requestBody(fetchMock, 'POST', path)).toEqual({ body: 'Done' });
+  });
+});
+
+describe('noteToCommentContext', () => {
+  it('uses the old line of notes on removed lines', () => {
+    const event = fixture('note_event.json');
+    const note = event.object_attributes;
+
+    const context = noteToCommentContext(
+      { id: note.id, body: note.note, author: event.user, position: note.position },
+      note.discussion_id,
+      event.merge_request.iid
+    );
+
+    expect(context).toMatchObject({
+      commentId: 1244,
+      path: 'src/legacy.ts',
+      startLine: 1,
+      endLine: 1,
+      originalEndLine: 1,
+      startSide: 'LEFT',
+      side: 'LEFT',
+      body: 'splice-bot title:"Legacy removal"',
+    });
+  });
+});
+
+describe('createGitLabBackend', () => {
+  const backend = createGitLabBackend(client);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('commits file actions on top of the base', async () => {
+    const fetchMock = mockGitLab({
+      [`GET ${project}/repository/branches/main`]: { body: { name: 'main', commit: { id: 'base123' } } },
+      [`GET ${project}/repository/files/src%2Fparser.ts/raw?ref=base123`]: { body: 'old' },
+      [`GET ${project}/repository/files/src%2Flegacy.ts/raw?ref=base123`]: { body: 'legacy' },
+      [`POST ${project}/repository/commits`]: { body: { id: 'new456' } },
+    });
+
+    const sha = await backend.commitChanges(
+      'splice/pr-42-1244',
+      [
+        { path: 'src/parser.ts', content: 'new', mode: '100644' },
+        { path: 'scripts/build.sh', content: 'npm run build\n', mode: '100755' },
+        { path: 'src/legacy.ts', content: null, mode: '100644' },
+      ],
+      'main',
+      'Extract changes',
+      42,
+      'alice',
+      '7-alice@users.noreply.gitlab.com'
+    );
+
+    expect(sha).toBe('new456');
+    expect(requestBody(fetchMock, 'POST', `${project}/repository/commits`)).toEqual({
+      branch: 'splice/pr-42-1244',
+      commit_message: 'Extract changes\n\nSpliced from MR !42',
+      actions: [
+        { action: 'update', file_path: 'src/parser.ts', content: 'new', execute_filemode: false },
+        { action: 'create', file_path: 'scripts/build.sh', content: 'npm run build\n', execute_filemode: true },
+        { action: 'delete', file_path: 'src/legacy.ts' },
+      ],
+      author_name: 'alice',
+      author_email: '7-alice@users.noreply.gitlab.com',
+      start_sha: 'base123',
+      force: true,
+    });
+  });
+
+  it('checks whether a branch exists', async () => {
+    mockGitLab({ [`GET ${project}/repository/branches/main`]: { body: { name: 'main', commit: { id: 'base123' } } } });
+
+    expect(await backend.branchExists('main')).toBe(true);
+    expect(await backend.branchExists('missing')).toBe(false);
+  });
+});
@@ -1,4 +1,22 @@
-import { parseInstruction, generatePrDescription } from '../parser';
+import {
+  parseInstruction,
+  generatePrDescription,
+  generateGroupBranchName,
+  generateReviewBranchName,
+  generateCliBranchName,
+  generateCliSpliceId,
+  parseLineRange,
+  generatePrTitle,
+  formatConflictReport,
+  parseSpliceBotMetadata,
+  findSplicePrToUpdate,
+  findSplicePrOfComment,
+  parseMatchPattern,
+  parseExclusion,
+  matchesPath,
+  withDefaults,
+} from '../parser';
+import { SpliceBotMetadata } from '../types';
 
 describe('parseInstruction', () => {
   it('parses simple splice-bot command', () => {
@@ -35,6 +53,26 @@ describe('parseInstruction', () => {
     expect(result).toEqual({ entireFile: true });
   });
 
+  it('parses --entire-function and --entire-block flags', () => {
+    expect(parseInstruction('splice-bot --entire-function')).toEqual({ entireFunction: true });
+    expect(parseInstruction('splice-bot --entire-block')).toEqual({ entireBlock: true });
+  });
+
+  it('parses --update flag', () => {
+    const result = parseInstruction('splice-bot --update');
+    expect(result).toEqual({ update: true });
+  });
+
+  it('parses --move flag', () => {
+    const result = parseInstruction('splice-bot --move');
+    expect(result).toEqual({ move: true });
+  });
+
+  it('parses --auto-sync flag', () => {
+    const result = parseInstruction('splice-bot --auto-sync');
+    expect(result).toEqual({ autoSync: true });
+  });
+
   it('parses reviewers and strips @ prefix', () => {
     const result = parseInstruction('splice-bot reviewers:@alice,bob,@charlie');
     expect(result).toEqual({
@@ -42,6 +80,26 @@ describe('parseInstruction', () => {
     });
   });
 
+  it('parses file and line range specifiers', () => {
+    const result = parseInstruction('splice-bot src/a.ts:10-20 src/b.ts:5 Makefile:3 title:"Fix a.ts:10"');
+    expect(result).toEqual({
+      title: 'Fix a.ts:10',
+      ranges: [
+        { path: 'src/a.ts', startLine: 10, endLine: 20 },
+        { path: 'src/b.ts', startLine: 5, endLine: 5 },
+        { path: 'Makefile', startLine: 3, endLine: 3 },
+      ],
+    });
+  });
+
+  it('does not mistake numeric options for ranges', () => {
+    const result = parseInstruction('splice-bot base:123 a.ts:9-7');
+    expect(result).toEqual({
+      base: '123',
+      ranges: [{ path: 'a.ts', startLine: 7, endLine: 9 }],
+    });
+  });
+
   it('returns null for non-splice-bot comments', () => {
     const result = parseInstruction('This is a regular comment');
     expect(result).toBeNull();
@@ -52,9 +110,7 @@ describe('generatePrDescription', () => {
   const defaultOptions = {
     originalPrNumber: 123,
     originalPrTitle: 'Original PR',
-    path: 'src/file.ts',
-    startLine: 10,
-    endLine: 20,
+    selections: [{ path: 'src/file.ts', startLine: 10, endLine: 20, commentId: 456789 }],
     commentId: 456789,
     authorLogin: 'testuser',
   };
@@ -78,8 +134,7 @@ describe('generatePrDescription', () => {
   it('formats single line correctly', () => {
     const result = generatePrDescription({
       ...defaultOptions,
-      startLine: 15,
-      endLine: 15,
+      selections: [{ path: 'src/file.ts', startLine: 15, endLine: 15, commentId: 456789 }],
     });
 
     expect(result).toContain('at line 15');
@@ -106,4 +161,355 @@ describe('generatePrDescription', () => {
     expect(metadata['splice-bot']['original-pr']).toBe(123);
     expect(metadata['splice-bot']['comment-id']).toBe(456789);
   });
+
+  it('lists every file of a group', () => {
+    const result = generatePrDescription({
+      ...defaultOptions,
+      selections: [
+        { path: 'src/a.ts', startLine: 1, endLine: 5, commentId: 1 },
+        { path: 'src/b.ts', startLine: 7, endLine: 7, commentId: 2 },
+      ],
+      group: 'refactor',
+    });
+
+    expect(result).toContain('- **Files**:');
+    expect(result).toContain('`src/a.ts` at lines 1-5 ([comment](../pull/123#discussion_r1))');
+    expect(result).toContain('`src/b.ts` at line 7 ([comment](../pull/123#discussion_r2))');
+    expect(result).toContain('- **Group**: `refactor`');
+    expect(result).toContain('"group":"refactor"');
+  });
+
+  it('omits comment links without a comment', () => {
+    const result = generatePrDescription({
+      ...defaultOptions,
+      selections: [{ path: 'src/file.ts', startLine: 10, endLine: 20, commentId: 0 }],
+      commentId: 0,
+    });
+
+    expect(result).toContain('- **Requested by**: @testuser\n');
+    expect(result).not.toContain('view comment');
+  });
+
+  it('links PR conversation comments', () => {
+    const result = generatePrDescription({ ...defaultOptions, commentKind: 'issue' });
+
+    expect(result).toContain('[view comment](../pull/123#issuecomment-456789)');
+  });
+
+  it('mentions the splice it is stacked on', () => {
+    const result = generatePrDescription({ ...defaultOptions, stackedOn: { branch: 'splice/pr-123-1', prNumber: 456 } });
+
+    expect(result).toContain('- **Stacked on**: #456 `splice/pr-123-1`');
+  });
+
+  it('references GitLab merge requests and notes', () => {
+    const result = generatePrDescription({ ...defaultOptions, commentKind: 'note' });
+
+    expect(result).toContain('Spliced from !123');
+    expect(result).toContain('[view comment](../merge_requests/123#note_456789)');
+  });
+
+  it('links the review for review-based splices', () => {
+    const result = generatePrDescription({ ...defaultOptions, reviewId: 777 });
+
+    expect(result).toContain('[view review](../pull/123#pullrequestreview-777)');
+    expect(result).toContain('"review-id":777');
+  });
+});
+
+describe('generateReviewBranchName', () => {
+  it('includes the review id', () => {
+    expect(generateReviewBranchName(42, 777)).toBe('splice/pr-42-review-777');
+  });
+});
+
+describe('parseInstruction stacking', () => {
+  it('parses stack and after', () => {
+    expect(parseInstruction('splice-bot stack:#456')).toEqual({ stack: 456 });
+    expect(parseInstruction('splice-bot stack:456 title:"Next"')).toEqual({ stack: 456, title: 'Next' });
+    expect(parseInstruction('splice-bot after:splice/pr-1-2')).toEqual({ after: 'splice/pr-1-2' });
+  });
+
+  it('ignores invalid stack references', () => {
+    expect(parseInstruction('splice-bot stack:next')).toEqual({});
+  });
+
+  it('parses match patterns and path globs', () => {
+    expect(parseInstruction('splice-bot match:"/oldName/" paths:"src/**/*.ts, docs/*.md"')).toEqual({
+      match: '/oldName/',
+      paths: ['src/**/*.ts', 'docs/*.md'],
+    });
+  });
+
+  it('parses excluded lines', () => {
+    expect(parseInstruction('splice-bot exclude:22,30-31')).toEqual({
+      exclude: { lines: [{ startLine: 22, endLine: 22 }, { startLine: 30, endLine: 31 }], patterns: [] },
+    });
+  });
+});
+
+describe('parseExclusion', () => {
+  it('separates line ranges from patterns', () => {
+    expect(parseExclusion('22, /console\\.(log|warn)/i,debug')).toEqual({
+      lines: [{ startLine: 22, endLine: 22 }],
+      patterns: ['/console\\.(log|warn)/i', 'debug'],
+    });
+  });
+
+  it('keeps commas inside regular expressions', () => {
+    expect(parseExclusion('/a{1,2}/,3-4').patterns).toEqual(['/a{1,2}/']);
+  });
+});
+
+describe('parseMatchPattern', () => {
+  it('parses regular expressions with flags', () => {
+    expect(parseMatchPattern('/old_?name/i')?.test('OldName')).toBe(true);
+  });
+
+  it('matches other text literally', () => {
+    expect(parseMatchPattern('1.2.3')?.test('version 1.2.3')).toBe(true);
+    expect(parseMatchPattern('1.2.3')?.test('version 1x2x3')).toBe(false);
+  });
+
+  it('returns null for invalid regular expressions', () => {
+    expect(parseMatchPattern('/(/')).toBeNull();
+  });
+});
+
+describe('matchesPath', () => {
+  it('matches globs against the path', () => {
+    expect(matchesPath('src/a/b.ts', ['src/**/*.ts'])).toBe(true);
+    expect(matchesPath('src/b.ts', ['src/**/*.ts'])).toBe(true);
+    expect(matchesPath('lib/b.ts', ['src/**/*.ts'])).toBe(false);
+    expect(matchesPath('src/a/b.ts', ['src/*.ts'])).toBe(false);
+  });
+
+  it('matches globs without a slash against the file name', () => {
+    expect(matchesPath('src/a/b.ts', ['*.ts'])).toBe(true);
+    expect(matchesPath('src/a/b.tsx', ['*.ts', 'b.ts?'])).toBe(true);
+    expect(matchesPath('src/a/b.js', ['*.ts'])).toBe(false);
+  });
+});
+
+describe('withDefaults', () => {
+  it('fills in the options an instruction does not set', () => {
+    const review = parseInstruction('splice-bot title:"X" --draft labels:a --entire-hunk')!;
+
+    expect(withDefaults({}, review)).toEqual(review);
+    expect(withDefaults(parseInstruction('splice-bot title:"Y" --entire-file')!, review)).toEqual({
+      title: 'Y',
+      draft: true,
+      labels: ['a'],
+      entireFile: true,
+    });
+  });
+});
+
+describe('generateCliBranchName', () => {
+  it('is stable for the same ranges', () => {
+    const ranges = [{ path: 'src/a.ts', startLine: 1, endLine: 5 }];
+    expect(generateCliBranchName(3, ranges)).toMatch(/^splice\/pr-3-cli-[0-9a-f]{8}$/);
+    expect(generateCliBranchName(3, ranges)).toBe(generateCliBranchName(3, [...ranges]));
+    expect(generateCliBranchName(3, ranges)).not.toBe(
+      generateCliBranchName(3, [{ path: 'src/a.ts', startLine: 1, endLine: 6 }])
+    );
+    expect(generateCliBranchName(3, [], '/old/')).not.toBe(generateCliBranchName(3, [], '/new/'));
+    expect(generateCliBranchName(3, ranges)).toBe(`splice/pr-3-${generateCliSpliceId(ranges)}`);
+  });
+});
+
+describe('parseLineRange', () => {
+  it('parses single lines and ranges', () => {
+    expect(parseLineRange('7')).toEqual({ startLine: 7, endLine: 7 });
+    expect(parseLineRange('20-10')).toEqual({ startLine: 10, endLine: 20 });
+    expect(parseLineRange('ten')).toBeNull();
+  });
+});
+
+describe('generateGroupBranchName', () => {
+  it('slugifies the group name', () => {
+    expect(generateGroupBranchName(42, 'My Refactor!')).toBe('splice/pr-42-my-refactor');
+  });
+});
+
+describe('generatePrTitle', () => {
+  it('uses the file name for a single file', () => {
+    expect(generatePrTitle(['src/dir/file.ts'])).toBe('[Splice] Extract changes from file.ts');
+  });
+
+  it('counts files for multiple files', () => {
+    expect(generatePrTitle(['a.ts', 'b.ts'])).toBe('[Splice] Extract changes from 2 files');
+  });
+});
+
+describe('formatConflictReport', () => {
+  it('lists the conflicting lines of each hunk', () => {
+    const result = formatConflictReport(
+      [
+        {
+          path: 'src/a.ts',
+          hunks: [
+            {
+              hunk: { oldStart: 4, oldLines: 2, newStart: 4, newLines: 1, content: '@@ -4,2 +4,1 @@\n-x\n-y\n+z' },
+              lines: [
+                { lineNumber: 4, expected: 'x', actual: 'const `x`' },
+                { lineNumber: 5, expected: 'y', actual: null },
+              ],
+            },
+          ],
+        },
+      ],
+      'main'
+    );
+
+    expect(result).toContain('do not apply cleanly to `main`');
+    expect(result).toContain('**`src/a.ts`** (`@@ -4,2 +4,1 @@`)');
+    expect(result).toContain('- Line 4: expected `x`, found `` const `x` ``');
+    expect(result).toContain('- Line 5: expected `y`, found end of file');
+  });
+});
+
+describe('parseSpliceBotMetadata', () => {
+  it('parses metadata written by generatePrDescription', () => {
+    const body = generatePrDescription({
+      originalPrNumber: 7,
+      originalPrTitle: 'Original',
+      selections: [{ path: 'a.ts', startLine: 1, endLine: 1, commentId: 99 }],
+      commentId: 99,
+      authorLogin: 'someone',
+    });
+
+    expect(parseSpliceBotMetadata(body)).toEqual({ 'splice-bot': { 'original-pr': 7, 'comment-id': 99 } });
+  });
+
+  it('parses the recorded selections and head commit', () => {
+    const body = generatePrDescription({
+      originalPrNumber: 7,
+      originalPrTitle: 'Original',
+      selections: [
+        { path: 'a.ts', startLine: 1, endLine: 3, commentId: 99, exclude: { lines: [{ startLine: 2, endLine: 2 }], patterns: ['/debug/'] } },
+        { path: 'b.ts', startLine: 5, endLine: 5, commentId: 100, extract: 'hunk' },
+        { path: 'c.ts', startLine: 8, endLine: 9, commentId: 101, startSide: 'LEFT', side: 'RIGHT' },
+      ],
+      commentId: 99,
+      authorLogin: 'someone',
+      commentKind: 'issue',
+      headSha: 'abc123',
+    });
+
+    expect(parseSpliceBotMetadata(body)).toEqual({
+      'splice-bot': {
+        'original-pr': 7,
+        'comment-id': 99,
+        'comment-kind': 'issue',
+        'requested-by': 'someone',
+        'head-sha': 'abc123',
+        selections: [
+          { path: 'a.ts', start: 1, end: 3, comment: 99, exclude: '2,/debug/' },
+          { path: 'b.ts', start: 5, end: 5, comment: 100, extract: 'hunk' },
+          { path: 'c.ts', start: 8, end: 9, comment: 101, 'start-side': 'LEFT' },
+        ],
+      },
+    });
+  });
+
+  it('returns null without metadata', () => {
+    expect(parseSpliceBotMetadata('Just a PR')).toBeNull();
+  });
+});
+
+describe('findSplicePrToUpdate', () => {
+  const splicePr = (number: number, originalPr: number, commentId: number, headBranch: string, group?: string) => ({
+    number,
+    url: `https://example.com/pull/${number}`,
+    headBranch,
+    baseBranch: 'main',
+    metadata: { 'splice-bot': { 'original-pr': originalPr, 'comment-id': commentId, ...(group ? { group } : {}) } },
+  });
+
+  const prs = [
+    splicePr(10, 1, 100, 'splice/pr-1-100'),
+    splicePr(11, 1, 101, 'splice/pr-1-refactor', 'refactor'),
+    splicePr(12, 2, 100, 'splice/pr-2-100'),
+  ];
+
+  it('finds the PR of a re-run comment', () => {
+    const pr = findSplicePrToUpdate(prs, { originalPrNumber: 1, commentId: 100, branchName: 'custom' });
+    expect(pr?.number).toBe(10);
+  });
+
+  it('finds the PR of a group', () => {
+    const pr = findSplicePrToUpdate(prs, {
+      originalPrNumber: 1,
+      commentId: 555,
+      branchName: 'splice/pr-1-other',
+      group: 'refactor',
+    });
+    expect(pr?.number).toBe(11);
+  });
+
+  it('matches reviews by review id only', () => {
+    const reviewPr = {
+      ...splicePr(13, 1, 100, 'splice/pr-1-review-9'),
+      metadata: { 'splice-bot': { 'original-pr': 1, 'comment-id': 100, 'review-id': 9 } },
+    };
+    const reviewPrs = [...prs, reviewPr];
+    const target = { originalPrNumber: 1, commentId: 100, branchName: 'other', reviewId: 9 };
+    expect(findSplicePrToUpdate(reviewPrs, target)?.number).toBe(13);
+    expect(findSplicePrToUpdate(prs, target)).toBeNull();
+  });
+
+  it('matches splices without a comment by branch only', () => {
+    const cliPrs = [splicePr(20, 1, 0, 'splice/pr-1-cli-aaaaaaaa')];
+    const target = { originalPrNumber: 1, commentId: 0, branchName: 'splice/pr-1-cli-bbbbbbbb' };
+    expect(findSplicePrToUpdate(cliPrs, target)).toBeNull();
+    expect(findSplicePrToUpdate(cliPrs, { ...target, branchName: 'splice/pr-1-cli-aaaaaaaa' })?.number).toBe(20);
+  });
+
+  it('creates a new PR for a new comment', () => {
+    const pr = findSplicePrToUpdate(prs, { originalPrNumber: 1, commentId: 555, branchName: 'splice/pr-1-555' });
+    expect(pr).toBeNull();
+  });
+
+  it('updates the most recent splice with --update', () => {
+    const pr = findSplicePrToUpdate(prs, {
+      originalPrNumber: 1,
+      commentId: 555,
+      branchName: 'splice/pr-1-555',
+      update: true,
+    });
+    expect(pr?.number).toBe(11);
+  });
+});
+
+describe('findSplicePrOfComment', () => {
+  const splicePr = (number: number, headBranch: string, metadata: object) => ({
+    number,
+    url: `https://example.com/pull/${number}`,
+    headBranch,
+    baseBranch: 'main',
+    metadata: { 'splice-bot': { 'original-pr': 1, ...metadata } } as SpliceBotMetadata,
+  });
+
+  const prs = [
+    splicePr(10, 'splice/pr-1-100', { 'comment-id': 100 }),
+    splicePr(11, 'splice/pr-1-refactor', {
+      'comment-id': 102,
+      group: 'refactor',
+      selections: [
+        { path: 'a.ts', start: 1, end: 2, comment: 101 },
+        { path: 'b.ts', start: 3, end: 4, comment: 102 },
+      ],
+    }),
+  ];
+
+  it('finds the PR created by the comment or that includes it', () => {
+    expect(findSplicePrOfComment(prs, 1, 100)?.number).toBe(10);
+    expect(findSplicePrOfComment(prs, 1, 101)?.number).toBe(11);
+    expect(findSplicePrOfComment(prs, 2, 100)).toBeNull();
+  });
+
+  it('ignores comments that only name the branch or group of a splice', () => {
+    expect(findSplicePrOfComment(prs, 1, 555)).toBeNull();
+  });
 });
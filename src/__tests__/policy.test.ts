@@ -0,0 +1,108 @@
+import * as github from '@actions/github';
+import { GitLabClient } from '../gitlab';
+import { checkGitLabPermission, checkSplicePermission } from '../policy';
+import { SplicePolicy } from '../types';
+
+/**
+ * Create an Octokit instance that answers with the given responses, keyed by path
+ */
+function mockOctokit(routes: Record<string, unknown>) {
+  const fetch = async (url: string) => {
+    const body = routes[new URL(url).pathname];
+    return body === undefined
+      ? new Response('{"message":"Not Found"}', { status: 404, headers: { 'content-type': 'application/json' } })
+      : new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  };
+
+  return github.getOctokit('token', { request: { fetch } });
+}
+
+const policy: SplicePolicy = {
+  minPermission: 'write',
+  allowedUsers: [],
+  deniedUsers: [],
+  allowedTeams: [],
+  deniedTeams: [],
+  allowPrAuthor: false,
+};
+
+describe('checkSplicePermission', () => {
+  const octokit = mockOctokit({
+    '/repos/acme/widgets/collaborators/maintainer/permission': { permission: 'write', role_name: 'maintain' },
+    '/repos/acme/widgets/collaborators/triager/permission': { permission: 'read', role_name: 'triage' },
+    '/repos/acme/widgets/collaborators/helper/permission': { permission: 'read', role_name: 'docs-helper' },
+    '/orgs/acme/teams/docs/memberships/helper': { state: 'active' },
+  });
+  const check = (login: string, overrides: Partial<SplicePolicy> = {}, prAuthor = 'someone') =>
+    checkSplicePermission(octokit, 'acme', 'widgets', { ...policy, ...overrides }, login, prAuthor);
+
+  it('allows users with the minimum role', async () => {
+    expect(await check('maintainer')).toBeNull();
+    expect(await check('triager', { minPermission: 'triage' })).toBeNull();
+  });
+
+  it('refuses users below the minimum role', async () => {
+    expect(await check('triager')).toBe(
+      'Splicing requires the `write` permission on this repository, but @triager has `triage`.'
+    );
+    // Users without access are not collaborators
+    expect(await check('drive-by')).toMatch(/has `none`/);
+    // Custom roles count as their base role
+    expect(await check('helper', { minPermission: 'triage' })).toMatch(/has `read`/);
+  });
+
+  it('applies the allow and deny lists before the role', async () => {
+    expect(await check('drive-by', { allowedUsers: ['drive-by'] })).toBeNull();
+    expect(await check('helper', { allowedTeams: ['acme/docs'] })).toBeNull();
+    expect(await check('Maintainer', { deniedUsers: ['maintainer'] })).toMatch(/not allowed/);
+    expect(await check('helper', { deniedTeams: ['docs'], allowedUsers: ['helper'] })).toMatch(/`docs`/);
+  });
+
+  it('lets PR authors splice their own PR when enabled', async () => {
+    expect(await check('drive-by', { allowPrAuthor: true }, 'drive-by')).toBeNull();
+    expect(await check('drive-by', { allowPrAuthor: false }, 'drive-by')).not.toBeNull();
+  });
+});
+
+describe('checkGitLabPermission', () => {
+  const client: GitLabClient = { apiUrl: 'https://gitlab.example.com/api/v4', token: 'secret', projectId: 'acme/widgets' };
+  const members: Record<string, unknown> = {
+    '/projects/acme%2Fwidgets/members/all/1': { access_level: 40 },
+    '/projects/acme%2Fwidgets/members/all/2': { access_level: 20 },
+    '/groups/acme%2Fdocs/members/all/2': { access_level: 10 },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(global, 'fetch').mockImplementation(async input => {
+      const body = members[String(input).substring(client.apiUrl.length)];
+      return body === undefined
+        ? new Response('{"message":"404 Not Found"}', { status: 404 })
+        : new Response(JSON.stringify(body), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const check = (id: number, username: string, overrides: Partial<SplicePolicy> = {}, mrAuthorId = 99) =>
+    checkGitLabPermission(client, { ...policy, ...overrides }, { id, username }, mrAuthorId);
+
+  it('maps access levels to roles', async () => {
+    expect(await check(1, 'maintainer')).toBeNull();
+    expect(await check(2, 'reporter')).toBe(
+      'Splicing requires the `write` permission on this repository, but @reporter has `triage`.'
+    );
+    expect(await check(2, 'reporter', { minPermission: 'triage' })).toBeNull();
+    // Users who aren't members have no access
+    expect(await check(3, 'drive-by')).toMatch(/has `none`/);
+  });
+
+  it('checks groups and the merge request author', async () => {
+    expect(await check(2, 'reporter', { allowedTeams: ['acme/docs'] })).toBeNull();
+    expect(await check(1, 'maintainer', { deniedTeams: ['acme/docs'] })).toBeNull();
+    expect(await check(2, 'reporter', { deniedTeams: ['acme/docs'] })).toMatch(/`acme\/docs`/);
+    expect(await check(3, 'drive-by', { allowPrAuthor: true }, 3)).toBeNull();
+    expect(await check(3, 'drive-by', { allowPrAuthor: true })).not.toBeNull();
+  });
+});
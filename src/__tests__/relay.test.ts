@@ -0,0 +1,105 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as github from '@actions/github';
+import { recordEvent, replayEvent } from '../relay';
+
+/**
+ * Create an Octokit instance that answers with the given responses, keyed by path
+ */
+function mockOctokit(routes: Record<string, unknown>) {
+  const fetch = async (url: string) => {
+    const body = routes[new URL(url).pathname];
+    return body === undefined
+      ? new Response('{"message":"Not Found"}', { status: 404, headers: { 'content-type': 'application/json' } })
+      : new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  };
+
+  return github.getOctokit('token', { request: { fetch } });
+}
+
+const context = (eventName: string, payload: object) => ({ eventName, payload }) as unknown as typeof github.context;
+
+describe('two-stage events', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'splice-relay-'));
+    file = join(dir, 'event', 'event.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeEvent = (event: object) => {
+    const path = join(dir, 'recorded.json');
+    writeFileSync(path, JSON.stringify(event));
+    return path;
+  };
+
+  it('records only the ids of a review comment', () => {
+    recordEvent(
+      context('pull_request_review_comment', {
+        action: 'created',
+        comment: { id: 1521, body: 'splice-bot' },
+        pull_request: { number: 42 },
+      }),
+      file
+    );
+
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+      eventName: 'pull_request_review_comment',
+      action: 'created',
+      prNumber: 42,
+      commentId: 1521,
+    });
+  });
+
+  it('replays a review comment with the comment and PR from the API', async () => {
+    // The recorded PR number is not trusted
+    const recorded = writeEvent({
+      eventName: 'pull_request_review_comment',
+      action: 'created',
+      prNumber: 7,
+      commentId: 1521,
+    });
+    const comment = { id: 1521, body: 'splice-bot', pull_request_url: 'https://api.github.com/repos/acme/widgets/pulls/42' };
+    const pullRequest = { number: 42, user: { login: 'octocat' } };
+    const octokit = mockOctokit({
+      '/repos/acme/widgets/pulls/comments/1521': comment,
+      '/repos/acme/widgets/pulls/42': pullRequest,
+    });
+
+    const replayed = await replayEvent(octokit, 'acme', 'widgets', recorded);
+
+    expect(replayed).toEqual({
+      eventName: 'pull_request_review_comment',
+      payload: { action: 'created', comment, pull_request: pullRequest },
+    });
+  });
+
+  it('skips deleted review comments', async () => {
+    const recorded = writeEvent({
+      eventName: 'pull_request_review_comment',
+      action: 'deleted',
+      prNumber: 42,
+      commentId: 1521,
+    });
+
+    expect(await replayEvent(mockOctokit({}), 'acme', 'widgets', recorded)).toBeNull();
+  });
+
+  it('fails for reviews that do not belong to the recorded PR', async () => {
+    const recorded = writeEvent({
+      eventName: 'pull_request_review',
+      action: 'submitted',
+      prNumber: 7,
+      reviewId: 880,
+    });
+    const octokit = mockOctokit({ '/repos/acme/widgets/pulls/42/reviews/880': { id: 880, state: 'COMMENTED' } });
+
+    await expect(replayEvent(octokit, 'acme', 'widgets', recorded)).rejects.toThrow(/Not Found/);
+  });
+});
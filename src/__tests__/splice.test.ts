@@ -0,0 +1,204 @@
+import { ForgeAdapter } from '../forge';
+import { generatePrDescription, parseInstruction, parseSpliceBotMetadata, withDefaults } from '../parser';
+import { findGroupTrigger, splice, syncSplices } from '../splice';
+import { CommentContext, OpenPullRequest, PrFile, PullRequestDetails } from '../types';
+
+/**
+ * A forge that serves the given pull requests and files, and records what a splice writes
+ */
+function fakeForge(setup: {
+  pullRequests: Record<number, Partial<PullRequestDetails>>;
+  openPullRequests: OpenPullRequest[];
+  files: Record<number, PrFile[]>;
+  contents: Record<string, string>;
+  comparison?: PrFile[];
+}) {
+  const calls: { method: string; args: unknown[] }[] = [];
+  const record =
+    <T>(method: string, result: T) =>
+    async (...args: unknown[]) => {
+      calls.push({ method, args });
+      return result;
+    };
+
+  const forge = {
+    git: {
+      getBranchSha: async () => 'splice-head',
+      branchExists: async () => true,
+      createBranch: record('createBranch', undefined),
+      deleteBranch: record('deleteBranch', undefined),
+      isUpToDateWith: async () => true,
+      commitChanges: record('commitChanges', 'new-commit'),
+    },
+    getPullRequest: async (prNumber: number) => ({
+      title: `PR ${prNumber}`,
+      baseBranch: 'main',
+      headBranch: `feature-${prNumber}`,
+      headSha: 'head',
+      baseSha: 'base',
+      fromFork: false,
+      ...setup.pullRequests[prNumber],
+    }),
+    listPullRequestFiles: async (prNumber: number) => setup.files[prNumber] || [],
+    compareCommits: async () => ({ commits: 1, files: setup.comparison || [] }),
+    listChangedFiles: async () => [],
+    getFileContent: async (path: string, ref: string) => setup.contents[`${ref}:${path}`] ?? null,
+    getFileMode: async () => '100644',
+    listReviewComments: async () => [],
+    listOpenPullRequests: async () => setup.openPullRequests,
+    createPullRequest: record('createPullRequest', { number: 99, url: 'https://example.com/pull/99' }),
+    updatePullRequest: async (prNumber: number, ...args: unknown[]) => {
+      calls.push({ method: 'updatePullRequest', args: [prNumber, ...args] });
+      return { number: prNumber, url: `https://example.com/pull/${prNumber}` };
+    },
+    updatePullRequestBase: record('updatePullRequestBase', undefined),
+    addLabels: record('addLabels', undefined),
+    requestReviewers: record('requestReviewers', undefined),
+    replyToComment: record('replyToComment', undefined),
+    createComment: record('createComment', undefined),
+  } as unknown as ForgeAdapter;
+
+  return { forge, calls: (method: string) => calls.filter(c => c.method === method).map(c => c.args) };
+}
+
+const comment = (commentId: number, authorLogin: string, body: string): CommentContext => ({
+  commentId,
+  prNumber: 7,
+  path: 'src/a.ts',
+  startLine: commentId,
+  endLine: commentId,
+  originalStartLine: null,
+  originalEndLine: null,
+  diffHunk: '',
+  body,
+  commitId: 'head',
+  authorLogin,
+  authorEmail: `${authorLogin}@example.com`,
+});
+
+describe('findGroupTrigger', () => {
+  const comments = [
+    comment(1, 'alice', 'splice-bot group:refactor title:"Rename"'),
+    comment(2, 'bob', 'splice-bot group:refactor'),
+    comment(3, 'mallory', 'splice-bot group:refactor branch:main'),
+    comment(4, 'alice', 'splice-bot group:other'),
+  ];
+  const forge = (listed: CommentContext[]) =>
+    ({ listReviewComments: async () => listed }) as unknown as ForgeAdapter;
+  const isAuthorized = async (login: string) => login !== 'mallory';
+
+  it('splices the rest of the group from a deleted comment', async () => {
+    const remaining = comments.filter(c => c.commentId !== 2);
+    const trigger = await findGroupTrigger(forge(remaining), 7, 2, 'refactor', isAuthorized);
+
+    expect(trigger?.context.commentId).toBe(1);
+    expect(trigger?.instruction).toEqual({ group: 'refactor', title: 'Rename' });
+  });
+
+  it('splices the rest of the group from an edited comment', async () => {
+    // The edited comment is still listed, with or without a command
+    const edited = [comments[0], { ...comments[1], body: 'Never mind' }, comments[2]];
+    expect((await findGroupTrigger(forge(edited), 7, 2, 'refactor', isAuthorized))?.context.commentId).toBe(1);
+
+    const moved = [comments[0], { ...comments[1], body: 'splice-bot group:other' }];
+    expect((await findGroupTrigger(forge(moved), 7, 2, 'refactor', isAuthorized))?.context.commentId).toBe(1);
+  });
+
+  it('only triggers on comments by users who may splice', async () => {
+    expect((await findGroupTrigger(forge(comments), 7, 1, 'refactor', isAuthorized))?.context.commentId).toBe(2);
+    expect(await findGroupTrigger(forge(comments), 7, 1, 'refactor', async () => false)).toBeNull();
+    expect(await findGroupTrigger(forge(comments), 7, 4, 'other', isAuthorized)).toBeNull();
+  });
+});
+
+describe('syncSplices', () => {
+  const description = (originalPrNumber: number, commentId: number, autoSync: boolean) =>
+    generatePrDescription({
+      originalPrNumber,
+      originalPrTitle: 'Original',
+      selections: [{ path: 'a.txt', startLine: 2, endLine: 2, commentId }],
+      commentId,
+      authorLogin: 'alice',
+      autoSync,
+      headSha: 'old-head',
+    });
+
+  it('keeps the title, base and settings of a spliced PR', async () => {
+    const { forge, calls } = fakeForge({
+      pullRequests: {
+        5: { title: 'Original', headSha: 'head' },
+        7: { headBranch: 'splice/lower' },
+        8: { title: 'My custom title', baseBranch: 'splice/lower', headBranch: 'splice/pr-5-100' },
+      },
+      openPullRequests: [
+        { number: 7, url: '', body: description(4, 50, false), headBranch: 'splice/lower', baseBranch: 'main', fromFork: false },
+        {
+          number: 8,
+          url: '',
+          body: description(5, 100, true),
+          headBranch: 'splice/pr-5-100',
+          baseBranch: 'splice/lower',
+          fromFork: false,
+        },
+      ],
+      files: { 5: [{ path: 'a.txt', status: 'modified', patch: '@@ -1,3 +1,3 @@\n one\n-two\n+Two!\n three' }] },
+      contents: { 'splice/lower:a.txt': 'one\ntwo\nthree' },
+      comparison: [{ path: 'a.txt', status: 'modified', patch: '@@ -1,3 +1,3 @@\n one\n-TWO\n+Two!\n three' }],
+    });
+
+    await syncSplices(forge, 5, 'head', { authorLogin: 'bob', authorEmail: 'bob@example.com' });
+
+    const [[prNumber, title, body]] = calls('updatePullRequest') as [number, string, string][];
+    expect([prNumber, title]).toEqual([8, 'My custom title']);
+    expect(parseSpliceBotMetadata(body)?.['splice-bot']['auto-sync']).toBe(true);
+    expect(body).toContain('splice/lower');
+    expect(calls('updatePullRequestBase')).toEqual([]);
+    expect(calls('commitChanges')[0].slice(0, 3)).toEqual([
+      'splice/pr-5-100',
+      [{ path: 'a.txt', content: 'one\nTwo!\nthree', mode: '100644' }],
+      'splice/lower',
+    ]);
+  });
+});
+
+describe('splice', () => {
+  it('applies the options of a review to its inline comments', async () => {
+    const { forge, calls } = fakeForge({
+      pullRequests: {},
+      openPullRequests: [],
+      files: { 5: [{ path: 'a.txt', status: 'modified', patch: '@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three' }] },
+      contents: { 'main:a.txt': 'one\ntwo\nthree' },
+    });
+    forge.git.branchExists = async () => false;
+
+    const review = parseInstruction('splice-bot title:"X" --draft labels:a')!;
+    const context = { ...comment(100, 'alice', 'Nice'), path: 'a.txt', startLine: 2, endLine: 2, prNumber: 5 };
+    const result = await splice(forge, context, review, {
+      selections: [{ context, instruction: withDefaults(parseInstruction(context.body) || {}, review) }],
+      reviewId: 200,
+      reply: async () => {},
+    });
+
+    expect(result.success).toBe(true);
+    const [[title, , , base, draft]] = calls('createPullRequest');
+    expect([title, base, draft]).toEqual(['X', 'main', true]);
+    expect(calls('addLabels')).toEqual([[99, ['a']]]);
+  });
+
+  it('splices files whose only change is their mode', async () => {
+    const { forge, calls } = fakeForge({
+      pullRequests: {},
+      openPullRequests: [],
+      files: { 5: [{ path: 'run.sh', status: 'modified', patch: null }] },
+      contents: { 'main:run.sh': 'echo hi' },
+    });
+    forge.git.branchExists = async () => false;
+    forge.getFileMode = async (_path: string, ref: string) => (ref === 'head' ? '100755' : '100644');
+
+    const context = { ...comment(100, 'alice', 'splice-bot --entire-file'), path: 'run.sh', prNumber: 5 };
+    const result = await splice(forge, context, parseInstruction(context.body)!);
+
+    expect(result.success).toBe(true);
+    expect(calls('commitChanges')[0][1]).toEqual([{ path: 'run.sh', content: 'echo hi', mode: '100755' }]);
+  });
+});
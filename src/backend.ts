@@ -0,0 +1,208 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GitHub } from '@actions/github/lib/utils';
+import {
+  getBranchSha,
+  branchExists,
+  createBranch,
+  deleteBranch,
+  isUpToDateWith,
+  commitChanges,
+} from './github';
+import { FileUpdate } from './types';
+
+type Octokit = InstanceType<typeof GitHub>;
+
+/**
+ * The git operations of a splice, either through the REST API or on a local checkout
+ */
+export interface GitBackend {
+  getBranchSha(branchName: string): Promise<string>;
+  branchExists(branchName: string): Promise<boolean>;
+  createBranch(branchName: string, baseBranch: string): Promise<void>;
+  deleteBranch(branchName: string): Promise<void>;
+  isUpToDateWith(branchName: string, baseBranch: string): Promise<boolean>;
+  /**
+   * Commit the files on top of the base branch and return the SHA of the new commit
+   */
+  commitChanges(
+    branchName: string,
+    files: FileUpdate[],
+    baseBranch: string,
+    commitMessage: string,
+    originalPrNumber: number,
+    authorName: string,
+    authorEmail: string,
+    parentSha?: string
+  ): Promise<string>;
+}
+
+/**
+ * Create a backend that uses the Git Data REST API
+ */
+export function createApiBackend(octokit: Octokit, owner: string, repo: string): GitBackend {
+  return {
+    getBranchSha: branchName => getBranchSha(octokit, owner, repo, branchName),
+    branchExists: branchName => branchExists(octokit, owner, repo, branchName),
+    createBranch: (branchName, baseBranch) => createBranch(octokit, owner, repo, branchName, baseBranch),
+    deleteBranch: branchName => deleteBranch(octokit, owner, repo, branchName),
+    isUpToDateWith: (branchName, baseBranch) => isUpToDateWith(octokit, owner, repo, branchName, baseBranch),
+    commitChanges: (
+      branchName,
+      files,
+      baseBranch,
+      commitMessage,
+      originalPrNumber,
+      authorName,
+      authorEmail,
+      parentSha
+    ) =>
+      commitChanges(
+        octokit,
+        owner,
+        repo,
+        branchName,
+        files,
+        baseBranch,
+        commitMessage,
+        originalPrNumber,
+        authorName,
+        authorEmail,
+        parentSha
+      ),
+  };
+}
+
+/**
+ * Run git in a directory and return its trimmed output
+ */
+function git(dir: string, args: string[], input?: string, env?: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd: dir, env: { ...process.env, ...env } });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', data => (stdout += data));
+    child.stderr.on('data', data => (stderr += data));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${code}`}`));
+      }
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+export interface LocalBackendOptions {
+  // Remote the branches are fetched from and pushed to
+  remote?: string;
+  // Committer of the spliced commits, defaults to the git configuration
+  committer?: { name: string; email: string };
+}
+
+/**
+ * Create a backend that works on a local clone, e.g. the checkout of the workflow
+ * Commits are built from the file contents in a temporary index and pushed once.
+ */
+export function createLocalBackend(dir: string, options: LocalBackendOptions = {}): GitBackend {
+  const remote = options.remote || 'origin';
+  const trackingRef = (branchName: string) => `refs/remotes/${remote}/${branchName}`;
+
+  // Refresh the remote-tracking ref of a branch and return its SHA
+  const fetchBranch = async (branchName: string): Promise<string> => {
+    await git(dir, ['fetch', '--quiet', remote, `+refs/heads/${branchName}:${trackingRef(branchName)}`]);
+    return git(dir, ['rev-parse', '--verify', `${trackingRef(branchName)}^{commit}`]);
+  };
+
+  return {
+    getBranchSha: fetchBranch,
+
+    async branchExists(branchName) {
+      const refs = await git(dir, ['ls-remote', '--heads', remote, `refs/heads/${branchName}`]);
+      return refs !== '';
+    },
+
+    // The branch is created by the push in commitChanges
+    async createBranch() {},
+
+    async deleteBranch(branchName) {
+      await git(dir, ['push', '--quiet', remote, '--delete', branchName]);
+    },
+
+    async isUpToDateWith(branchName, baseBranch) {
+      const baseSha = await fetchBranch(baseBranch);
+      const branchSha = await fetchBranch(branchName);
+      try {
+        await git(dir, ['merge-base', '--is-ancestor', baseSha, branchSha]);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async commitChanges(
+      branchName,
+      files,
+      baseBranch,
+      commitMessage,
+      originalPrNumber,
+      authorName,
+      authorEmail,
+      parentSha
+    ) {
+      const baseSha = await fetchBranch(baseBranch);
+
+      // Build the tree in a temporary index, leaving the checkout untouched
+      const tempDir = await mkdtemp(join(tmpdir(), 'splice-'));
+      const indexEnv = { GIT_INDEX_FILE: join(tempDir, 'index') };
+
+      try {
+        await git(dir, ['read-tree', baseSha], undefined, indexEnv);
+
+        // Stage the contents computed by the patch engine, which placed and checked every hunk
+        const entries: string[] = [];
+        const removedPaths: string[] = [];
+        for (const file of files) {
+          if (file.content === null) {
+            removedPaths.push(file.path);
+          } else {
+            const blobSha = await git(dir, ['hash-object', '-w', '--stdin'], file.content);
+            entries.push(`${file.mode} ${blobSha}\t${file.path}\0`);
+          }
+        }
+        if (entries.length > 0) {
+          await git(dir, ['update-index', '-z', '--index-info'], entries.join(''), indexEnv);
+        }
+        if (removedPaths.length > 0) {
+          await git(dir, ['update-index', '--force-remove', '--', ...removedPaths], undefined, indexEnv);
+        }
+
+        const treeSha = await git(dir, ['write-tree'], undefined, indexEnv);
+
+        // Create the commit with the comment author as the commit author
+        const fullMessage = `${commitMessage}\n\nSpliced from PR #${originalPrNumber}`;
+        const commitSha = await git(dir, ['commit-tree', treeSha, '-p', parentSha || baseSha, '-F', '-'], fullMessage, {
+          GIT_AUTHOR_NAME: authorName,
+          GIT_AUTHOR_EMAIL: authorEmail,
+          ...(options.committer
+            ? { GIT_COMMITTER_NAME: options.committer.name, GIT_COMMITTER_EMAIL: options.committer.email }
+            : {}),
+        });
+
+        // Push once, resetting the branch to the new commit unless it builds on the branch
+        const force = parentSha ? [] : ['--force'];
+        await git(dir, ['push', '--quiet', ...force, remote, `${commitSha}:refs/heads/${branchName}`]);
+
+        return commitSha;
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
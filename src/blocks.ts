@@ -0,0 +1,321 @@
+import * as ts from 'typescript';
+import { SyntaxUnit } from './types';
+
+/**
+ * A block of lines with the header that opens it, e.g. a function and its signature
+ */
+interface Block {
+  startLine: number;
+  endLine: number;
+  isFunction: boolean;
+}
+
+/**
+ * Files whose blocks are set by indentation rather than braces
+ */
+const INDENTED_FILE = /\.(py|pyi|ya?ml)$/i;
+
+/**
+ * Files parsed with the TypeScript compiler, and the kind of script of each extension
+ */
+const SCRIPT_FILE = /\.[cm]?[jt]sx?$/i;
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+/**
+ * Declarations and expressions that hold a function or block, whose line starts the block
+ */
+const HOLDERS = new Set([
+  ts.SyntaxKind.VariableDeclaration,
+  ts.SyntaxKind.VariableDeclarationList,
+  ts.SyntaxKind.VariableStatement,
+  ts.SyntaxKind.PropertyAssignment,
+  ts.SyntaxKind.PropertyDeclaration,
+  ts.SyntaxKind.ExportAssignment,
+  ts.SyntaxKind.ExpressionStatement,
+  ts.SyntaxKind.ReturnStatement,
+]);
+
+/**
+ * Find the functions and blocks of a JavaScript or TypeScript file from its syntax tree
+ * Like the headers of brace blocks, a block starts with the comments and decorators right above it.
+ */
+function findSyntaxBlocks(content: string, path: string): Block[] {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  const source = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[extension]);
+  const lineOf = (pos: number) => source.getLineAndCharacterOfPosition(pos).line + 1;
+  const blocks: Block[] = [];
+
+  // The first line of a node, or of the comments right above it
+  const startLineOf = (node: ts.Node, start = node.getStart(source)) => {
+    const comments = ts.getLeadingCommentRanges(content, node.getFullStart()) || [];
+    for (let i = comments.length - 1; i >= 0 && !/\n\s*\n/.test(content.slice(comments[i].end, start)); i--) {
+      start = comments[i].pos;
+    }
+    return lineOf(start);
+  };
+  const add = (node: ts.Node, isFunction: boolean) => {
+    while (HOLDERS.has(node.parent?.kind)) {
+      node = node.parent;
+    }
+    blocks.push({ startLine: startLineOf(node), endLine: lineOf(node.getEnd()), isFunction });
+  };
+
+  const visit = (node: ts.Node) => {
+    const parent = node.parent;
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      add(node, true);
+    } else if (ts.isBlock(node) && parent && !ts.isFunctionLike(parent)) {
+      // The keyword of an else or finally block starts it, other blocks start with their statement
+      const children = parent.getChildren(source);
+      const keyword = children[children.indexOf(node) - 1];
+      const opensBlock = keyword?.kind === ts.SyntaxKind.ElseKeyword || keyword?.kind === ts.SyntaxKind.FinallyKeyword;
+      if (opensBlock) {
+        blocks.push({ startLine: lineOf(keyword.getStart(source)), endLine: lineOf(node.getEnd()), isFunction: false });
+      } else {
+        add(ts.isSourceFile(parent) || ts.isBlock(parent) ? node : parent, false);
+      }
+    } else if (ts.isModuleBlock(node) || ts.isCaseBlock(node)) {
+      add(parent, false);
+    } else if (
+      ts.isClassLike(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isObjectLiteralExpression(node) ||
+      ts.isTypeLiteralNode(node)
+    ) {
+      add(node, false);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return blocks;
+}
+
+/**
+ * Statements that open a block which is not a function body
+ */
+const CONTROL_STATEMENT =
+  /^(if|else|for|foreach|while|do|switch|case|try|catch|finally|with|using|lock|synchronized|return|class|interface|enum|struct|namespace|module|impl|trait)\b/;
+
+/**
+ * Whether the header of a brace block opens a function body
+ */
+function isFunctionHeader(header: string): boolean {
+  const code = header
+    .replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '')
+    .replace(/^\s*(export|default|public|private|protected|static|abstract|override|async|pub)\s+/g, '')
+    .trim();
+
+  if (/=>$/.test(code)) {
+    return true;
+  }
+  if (CONTROL_STATEMENT.test(code) || /^}?\s*else\b/.test(code)) {
+    return false;
+  }
+  // Function keywords, or a method signature ending with its parameters and return type
+  return /\b(function|func|fn|fun|def)\b/.test(code) || /\)\s*(:[^=;]+|throws\s+[\w.,\s]+|->[^=;]+)?$/.test(code);
+}
+
+/**
+ * Whether a line continues the header on the line before it, e.g. a parameter list over several lines
+ */
+function continuesHeader(previous: string, line: string): boolean {
+  const before = previous.trim();
+  const current = line.trim();
+  return before !== '' && (/[,([=&|+\-*/%<>?:.]$/.test(before) || /^[),\].&|?:=+\-*/]/.test(current));
+}
+
+/**
+ * Get the first line of a block header, which ends on the line of the opening brace
+ * The comments, decorators and attributes right above the header belong to it.
+ */
+function headerStartLine(header: string, braceLine: number): number {
+  const lines = header.split('\n');
+  let first = lines.length - 1;
+
+  // A brace on a line of its own
+  while (first > 0 && lines[first].trim() === '') {
+    first--;
+  }
+  while (first > 0 && continuesHeader(lines[first - 1], lines[first])) {
+    first--;
+  }
+  while (first > 0 && /^\s*(\/\/|\/\*|\*|@|#\[)/.test(lines[first - 1])) {
+    first--;
+  }
+
+  return braceLine - (lines.length - 1 - first);
+}
+
+/**
+ * Get the index of the character that ends a string literal starting at `start`
+ * Single and double quoted strings also end at the end of their line, so a stray quote
+ * (e.g. a Rust lifetime) doesn't hide the rest of the file.
+ */
+function skipString(content: string, start: number): number {
+  const quote = content[start];
+  let braces = 0;
+
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      i++;
+    } else if (quote === '`' && char === '$' && content[i + 1] === '{') {
+      braces++;
+      i++;
+    } else if (quote === '`' && braces > 0 && char === '}') {
+      braces--;
+    } else if ((char === quote && braces === 0) || (char === '\n' && quote !== '`')) {
+      return char === '\n' ? i - 1 : i;
+    }
+  }
+
+  return content.length;
+}
+
+/**
+ * Find the brace-balanced blocks of a file, skipping braces in comments and strings
+ */
+function findBraceBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  const open: { startLine: number; isFunction: boolean; parenDepth: number; statementStart: number }[] = [];
+  let line = 1;
+  let parenDepth = 0;
+  // Where the statement that a brace may open started
+  let statementStart = 0;
+
+  // Parentheses opened since the innermost block, e.g. around the parameters of a callback
+  const openParens = () => parenDepth - (open.length > 0 ? open[open.length - 1].parenDepth : 0);
+  const skip = (end: number, i: number) => {
+    line += content.slice(i, end).split('\n').length - 1;
+    return end;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (char === '\n') {
+      line++;
+    } else if (char === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      i = (end === -1 ? content.length : end) - 1;
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = skip(end === -1 ? content.length : end + 1, i);
+    } else if (char === '"' || char === "'" || char === '`') {
+      i = skip(skipString(content, i), i);
+    } else if (char === '(' || char === '[') {
+      parenDepth++;
+    } else if (char === ')' || char === ']') {
+      parenDepth = Math.max(parenDepth - 1, 0);
+    } else if (char === ';' && openParens() === 0) {
+      statementStart = i + 1;
+    } else if (char === '{') {
+      const header = content.slice(statementStart, i);
+      // Braces inside parentheses are arguments, which are only functions as arrow functions
+      const isFunction = openParens() > 0 ? /=>\s*$/.test(header) : isFunctionHeader(header);
+      open.push({ startLine: headerStartLine(header, line), isFunction, parenDepth, statementStart });
+      statementStart = i + 1;
+    } else if (char === '}') {
+      const block = open.pop();
+      if (block) {
+        blocks.push({ startLine: block.startLine, endLine: line, isFunction: block.isFunction });
+        // The statement around an argument continues after it
+        statementStart = openParens() === 0 ? i + 1 : block.statementStart;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the indentation blocks of a file: a line and the more indented lines after it
+ * Lines inside brackets continue the line before them, e.g. the parameters of a Python function.
+ */
+function findIndentedBlocks(content: string): Block[] {
+  const lines = content.split('\n');
+  const structural: boolean[] = [];
+  let depth = 0;
+
+  for (const text of lines) {
+    const code = text.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '').replace(/#.*$/, '');
+    structural.push(depth === 0 && code.trim() !== '');
+    depth = Math.max(depth + (code.match(/[([{]/g) || []).length - (code.match(/[)\]}]/g) || []).length, 0);
+  }
+
+  const indent = (i: number) => lines[i].length - lines[i].trimStart().length;
+  const blocks: Block[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!structural[i]) {
+      continue;
+    }
+
+    // The block runs up to the next line that is not indented more than its header
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (structural[j] && indent(j) <= indent(i)) {
+        break;
+      }
+      if (lines[j].trim() !== '') {
+        end = j;
+      }
+    }
+    if (end === i) {
+      continue;
+    }
+
+    const isFunction = /^\s*(async\s+)?def\s/.test(lines[i]);
+    let start = i;
+    while (isFunction && start > 0 && /^\s*@/.test(lines[start - 1])) {
+      start--;
+    }
+    blocks.push({ startLine: start + 1, endLine: end + 1, isFunction });
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the innermost function or block of a file that encloses a range of lines
+ * JavaScript and TypeScript are parsed; other files are read as brace-balanced blocks,
+ * or indentation blocks for Python and YAML.
+ */
+export function findEnclosingBlock(
+  content: string,
+  path: string,
+  startLine: number,
+  endLine: number,
+  unit: SyntaxUnit
+): { startLine: number; endLine: number } | null {
+  const blocks = SCRIPT_FILE.test(path)
+    ? findSyntaxBlocks(content, path)
+    : INDENTED_FILE.test(path)
+      ? findIndentedBlocks(content)
+      : findBraceBlocks(content);
+
+  let innermost: Block | null = null;
+  for (const block of blocks) {
+    if (block.startLine > startLine || block.endLine < endLine || (unit === 'function' && !block.isFunction)) {
+      continue;
+    }
+    if (!innermost || block.endLine - block.startLine < innermost.endLine - innermost.startLine) {
+      innermost = block;
+    }
+  }
+
+  return innermost ? { startLine: innermost.startLine, endLine: innermost.endLine } : null;
+}
@@ -0,0 +1,122 @@
+import * as core from '@actions/core';
+import { GitHub } from '@actions/github/lib/utils';
+import { FileMode, PrFile } from './types';
+import { MergeRequestDiff } from './gitlab';
+
+type Octokit = InstanceType<typeof GitHub>;
+
+export type PullRequestFile = Awaited<ReturnType<Octokit['rest']['pulls']['listFiles']>>['data'][number];
+
+/**
+ * Remaining requests below which a warning is logged
+ */
+const RATE_LIMIT_WARNING_THRESHOLD = 100;
+
+/**
+ * Per-run cache of API responses, so multi-hunk and multi-comment splices
+ * don't fetch the same PR files or file contents repeatedly
+ */
+export interface SpliceCache {
+  // Keyed by PR, e.g. "owner/repo#123"
+  prFiles: Map<string, Promise<PullRequestFile[]>>;
+  rawDiffs: Map<string, Promise<string | null>>;
+  // Keyed by GitLab project and merge request, e.g. "group/project!123"
+  mrDiffs: Map<string, Promise<MergeRequestDiff[]>>;
+  // Keyed by path and ref, e.g. "owner/repo:src/a.ts@main"
+  contents: Map<string, Promise<string | null>>;
+  modes: Map<string, Promise<FileMode | null>>;
+  // Keyed by base and head, e.g. "owner/repo:main...abc123"
+  changedFiles: Map<string, Promise<PrFile[]>>;
+  stats: ApiStats;
+}
+
+export interface ApiStats {
+  requests: number;
+  cacheHits: number;
+  rateLimitRemaining: number | null;
+  rateLimitLimit: number | null;
+}
+
+/**
+ * Create an empty cache for one run
+ */
+export function createSpliceCache(): SpliceCache {
+  return {
+    prFiles: new Map(),
+    rawDiffs: new Map(),
+    mrDiffs: new Map(),
+    contents: new Map(),
+    modes: new Map(),
+    changedFiles: new Map(),
+    stats: {
+      requests: 0,
+      cacheHits: 0,
+      rateLimitRemaining: null,
+      rateLimitLimit: null,
+    },
+  };
+}
+
+/**
+ * Return the cached result for a key, or load and cache it
+ * Without a cache, the result is simply loaded
+ */
+export function memoize<T>(
+  cache: SpliceCache | undefined,
+  map: keyof Omit<SpliceCache, 'stats'>,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  if (!cache) {
+    return load();
+  }
+
+  const entries = cache[map] as Map<string, Promise<T>>;
+  const cached = entries.get(key);
+  if (cached) {
+    cache.stats.cacheHits++;
+    return cached;
+  }
+
+  const result = load();
+  entries.set(key, result);
+  return result;
+}
+
+/**
+ * Count the API requests made with an Octokit instance and track the rate limit
+ */
+export function trackApiUsage(octokit: Octokit, cache: SpliceCache): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    cache.stats.requests++;
+    const response = await request(options);
+
+    const remaining = response.headers['x-ratelimit-remaining'];
+    const limit = response.headers['x-ratelimit-limit'];
+    if (remaining !== undefined) {
+      cache.stats.rateLimitRemaining = Number(remaining);
+    }
+    if (limit !== undefined) {
+      cache.stats.rateLimitLimit = Number(limit);
+    }
+
+    return response;
+  });
+}
+
+/**
+ * Log the API requests made during the run and the remaining rate limit
+ */
+export function logApiUsage(cache: SpliceCache): void {
+  const { requests, cacheHits, rateLimitRemaining, rateLimitLimit } = cache.stats;
+  core.info(`API usage: ${requests} request(s), ${cacheHits} served from cache`);
+
+  if (rateLimitRemaining === null) {
+    return;
+  }
+
+  core.info(`Rate limit: ${rateLimitRemaining}/${rateLimitLimit ?? '?'} requests remaining`);
+  if (rateLimitRemaining < RATE_LIMIT_WARNING_THRESHOLD) {
+    core.warning(`Only ${rateLimitRemaining} API requests remaining before hitting the rate limit`);
+  }
+}
@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import * as github from '@actions/github';
+import { generateCliBranchName, generateCliSpliceId, parseExclusion, parseLineRange } from './parser';
+import { getAuthenticatedUser, getPrDetails, getAuthor, createGitHubAdapter } from './github';
+import { createSpliceCache, trackApiUsage, logApiUsage } from './cache';
+import { createApiBackend, createLocalBackend } from './backend';
+import { splice } from './splice';
+import { CommentContext, FileRange, SpliceInstruction } from './types';
+
+const USAGE = `Usage: splice-pr --repo <owner/repo> --pr <number> --path <file> --lines <start-end> [options]
+
+Splice lines of a pull request into a new pull request.
+Repeat --path and --lines to splice ranges from several files, or use --match and --paths
+to splice the hunks of all files that match.
+
+Options:
+  --title <title>          PR title
+  --base <branch>          Base branch (defaults to the original PR's base)
+  --description <text>     Custom PR description
+  --labels <a,b>           Comma-separated labels to add
+  --reviewers <a,b>        Comma-separated usernames to request reviews from
+  --branch <name>          Branch name
+  --draft                  Create as draft PR
+  --entire-hunk            Extract the complete hunks containing the lines
+  --entire-file            Extract all changes of the files
+  --entire-function        Extract all changes of the functions enclosing the lines
+  --entire-block           Extract all changes of the blocks enclosing the lines
+  --match <pattern>        Splice the hunks with a changed line matching /regex/flags or text
+  --paths <a,b>            Comma-separated globs of the files to splice hunks from
+  --exclude <a,b>          Leave out lines of the ranges: line numbers, ranges and patterns
+  --update                 Update the most recent spliced PR instead of creating a new one
+  --dry-run                Print the resulting patch without creating anything; logs go to stderr
+  --local                  Commit and push with the git clone in the current directory
+  --token <token>          GitHub token (defaults to GITHUB_TOKEN or GH_TOKEN)
+  -h, --help               Show this help`;
+
+/**
+ * Write the output of the command, the only thing written to stdout
+ */
+const writeOutput = process.stdout.write.bind(process.stdout);
+
+/**
+ * Run the splice-pr command line interface, returning the exit code
+ */
+async function main(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      repo: { type: 'string' },
+      pr: { type: 'string' },
+      path: { type: 'string', multiple: true },
+      lines: { type: 'string', multiple: true },
+      title: { type: 'string' },
+      base: { type: 'string' },
+      description: { type: 'string' },
+      labels: { type: 'string' },
+      reviewers: { type: 'string' },
+      branch: { type: 'string' },
+      draft: { type: 'boolean' },
+      'entire-hunk': { type: 'boolean' },
+      'entire-file': { type: 'boolean' },
+      'entire-function': { type: 'boolean' },
+      'entire-block': { type: 'boolean' },
+      match: { type: 'string' },
+      paths: { type: 'string' },
+      exclude: { type: 'string' },
+      update: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      local: { type: 'boolean' },
+      token: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    writeOutput(`${USAGE}\n`);
+    return 0;
+  }
+
+  const [owner, repo] = (values.repo || '').split('/');
+  const prNumber = parseInt(values.pr || '', 10);
+  const paths = values.path || [];
+  const lines = values.lines || [];
+  const token = values.token || process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+
+  const globs = values.paths
+    ?.split(',')
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+  const pattern = values.match || globs ? [values.match, globs?.join(',')].filter(Boolean).join(' ') : undefined;
+
+  if (!owner || !repo || isNaN(prNumber) || (paths.length === 0 && !pattern)) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (!token) {
+    console.error('A GitHub token is required: pass --token or set GITHUB_TOKEN');
+    return 2;
+  }
+  if (lines.length !== paths.length && !values['entire-file']) {
+    console.error('Each --path needs a matching --lines range');
+    return 2;
+  }
+
+  const ranges: FileRange[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    // With --entire-file, the lines only need to exist for the file to be selected
+    const range = lines[i] ? parseLineRange(lines[i]) : { startLine: 1, endLine: 1 };
+    if (!range) {
+      console.error(`Invalid line range: ${lines[i]}`);
+      return 2;
+    }
+    ranges.push({ path: paths[i], ...range });
+  }
+
+  const instruction: SpliceInstruction = {
+    title: values.title,
+    base: values.base,
+    description: values.description,
+    labels: values.labels?.split(',').map(l => l.trim()),
+    reviewers: values.reviewers?.split(',').map(r => r.trim().replace(/^@/, '')),
+    branch: values.branch,
+    draft: values.draft,
+    entireHunk: values['entire-hunk'],
+    entireFile: values['entire-file'],
+    entireFunction: values['entire-function'],
+    entireBlock: values['entire-block'],
+    match: values.match,
+    paths: globs,
+    exclude: values.exclude ? parseExclusion(values.exclude) : undefined,
+    update: values.update,
+  };
+
+  const octokit = github.getOctokit(token);
+  const cache = createSpliceCache();
+  trackApiUsage(octokit, cache);
+
+  // The commit author is the owner of the token
+  const { authorLogin, authorEmail } = getAuthor(await getAuthenticatedUser(octokit));
+  const prDetails = await getPrDetails(octokit, owner, repo, prNumber);
+
+  // There is no comment to reply to, so the comment id is 0
+  const toContext = (range: FileRange): CommentContext => ({
+    commentId: 0,
+    prNumber,
+    path: range.path,
+    startLine: range.startLine,
+    endLine: range.endLine,
+    originalStartLine: null,
+    originalEndLine: null,
+    diffHunk: '',
+    body: '',
+    commitId: prDetails.headSha,
+    authorLogin,
+    authorEmail,
+  });
+  // Patterns select hunks from the whole PR
+  const selected = ranges.length > 0 ? ranges : [{ path: '', startLine: 0, endLine: 0 }];
+  const selections = selected.map(range => ({ context: toContext(range), instruction }));
+
+  // With --local, only the PR is created through the API
+  const backend = values.local ? createLocalBackend(process.cwd()) : createApiBackend(octokit, owner, repo);
+  const forge = createGitHubAdapter(octokit, owner, repo, backend, cache);
+
+  const result = await splice(forge, selections[0].context, instruction, {
+    selections,
+    branchName: generateCliBranchName(prNumber, ranges, pattern),
+    spliceId: generateCliSpliceId(ranges, pattern),
+    reply: async message => console.error(message),
+    dryRun: values['dry-run'],
+  });
+  logApiUsage(cache);
+
+  if (!result.success) {
+    console.error(result.error || 'Unknown error');
+    return 1;
+  }
+
+  if (result.patch !== undefined) {
+    writeOutput(result.patch);
+  } else if (result.prUrl) {
+    writeOutput(`${result.prUrl}\n`);
+  }
+  return 0;
+}
+
+// The logs of @actions/core (and of splice) go to stdout, where they would end up in the patch
+process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,141 @@
+import { load } from 'js-yaml';
+import { ForgeAdapter } from './forge';
+import { getExtractMode, slugify, withExtractMode } from './parser';
+import { SpliceConfig, SpliceInstruction } from './types';
+
+/**
+ * Location of the repository configuration, read from the base branch of the original PR
+ */
+export const CONFIG_PATH = '.github/splice-bot.yml';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+/**
+ * The keys of the configuration file with the field they set and a check of their value
+ */
+const CONFIG_KEYS: Record<string, { field: keyof SpliceConfig; expected: string; valid: (value: unknown) => boolean }> = {
+  labels: { field: 'labels', expected: 'a list of labels', valid: isStringList },
+  reviewers: { field: 'reviewers', expected: 'a list of usernames', valid: isStringList },
+  draft: { field: 'draft', expected: 'true or false', valid: value => typeof value === 'boolean' },
+  'branch-template': {
+    field: 'branchTemplate',
+    expected: 'a branch name containing {id}',
+    valid: value => isString(value) && value.includes('{id}'),
+  },
+  'title-template': {
+    field: 'titleTemplate',
+    expected: 'a title containing {title}',
+    valid: value => isString(value) && value.includes('{title}'),
+  },
+  'description-footer': { field: 'descriptionFooter', expected: 'text', valid: isString },
+  'allowed-bases': { field: 'allowedBases', expected: 'a list of branches', valid: isStringList },
+  extract: {
+    field: 'extract',
+    expected: 'lines, hunk, file, function or block',
+    valid: value => ['lines', 'hunk', 'file', 'function', 'block'].includes(value as string),
+  },
+};
+
+/**
+ * Parse and validate the configuration file
+ * Returns the valid settings and a message for every invalid one.
+ */
+export function parseConfig(text: string): { config: SpliceConfig; errors: string[] } {
+  let data: unknown;
+  try {
+    data = load(text);
+  } catch (error) {
+    return { config: {}, errors: [`Invalid YAML: ${error instanceof Error ? error.message.split('\n')[0] : error}`] };
+  }
+
+  // An empty file configures nothing
+  if (data === undefined || data === null) {
+    return { config: {}, errors: [] };
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    return { config: {}, errors: ['Expected a mapping of settings'] };
+  }
+
+  const config: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    const setting = CONFIG_KEYS[key];
+    if (!setting) {
+      errors.push(`Unknown setting \`${key}\``);
+    } else if (!setting.valid(value)) {
+      errors.push(`\`${key}\` must be ${setting.expected}`);
+    } else {
+      config[setting.field] = value;
+    }
+  }
+
+  return { config: config as SpliceConfig, errors };
+}
+
+/**
+ * Read the configuration from a branch; a missing file configures nothing
+ */
+export async function loadConfig(forge: ForgeAdapter, ref: string): Promise<{ config: SpliceConfig; errors: string[] }> {
+  const text = await forge.getFileContent(CONFIG_PATH, ref);
+  return text === null ? { config: {}, errors: [] } : parseConfig(text);
+}
+
+/**
+ * Fill in the default labels, reviewers and draft setting for the options a splice doesn't set
+ */
+export function applyConfig(options: SpliceInstruction, config: SpliceConfig): SpliceInstruction {
+  const defaults: SpliceInstruction = {};
+  if (config.labels) {
+    defaults.labels = config.labels;
+  }
+  if (config.reviewers) {
+    defaults.reviewers = config.reviewers;
+  }
+  if (config.draft !== undefined) {
+    defaults.draft = config.draft;
+  }
+
+  return { ...defaults, ...options };
+}
+
+/**
+ * Use the default extraction mode for a selection that doesn't choose one
+ */
+export function applyExtractDefault(instruction: SpliceInstruction, config: SpliceConfig): SpliceInstruction {
+  if (getExtractMode(instruction) || config.extract === 'lines') {
+    return instruction;
+  }
+  return withExtractMode(instruction, config.extract);
+}
+
+/**
+ * Replace the {placeholders} of a template; unknown placeholders are kept
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Fill the branch template of the configuration
+ * Each part between slashes is slugified, so group names and templates can't produce invalid branches.
+ */
+export function fillBranchTemplate(template: string, prNumber: number, id: string | number): string {
+  return fillTemplate(template, { pr: prNumber, id })
+    .split('/')
+    .map(slugify)
+    .filter(part => part !== '')
+    .join('/');
+}
+
+/**
+ * Check a branch name against a list of branches and patterns, where * matches any characters
+ */
+export function matchesBranch(branch: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(branch);
+  });
+}
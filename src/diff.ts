@@ -1,7 +1,18 @@
-import { GitHub } from '@actions/github/lib/utils';
-import { ExtractedChange, DiffHunk } from './types';
-
-type Octokit = InstanceType<typeof GitHub>;
+import {
+  ExtractedChange,
+  DiffHunk,
+  HunkConflict,
+  ConflictLine,
+  PatchResult,
+  FileConflict,
+  FileUpdate,
+  FileStatus,
+  PrFile,
+  DiffSide,
+  LineExclusion,
+} from './types';
+import { ForgeAdapter } from './forge';
+import { parseMatchPattern } from './parser';
 
 /**
  * Parse a unified diff hunk header
@@ -29,60 +40,22 @@ interface DiffLine {
   type: 'context' | 'addition' | 'deletion';
   oldLineNum: number | null;
   newLineNum: number | null;
+  // Position of the line in the old and new file, also set for additions and deletions
+  oldPosition: number;
+  newPosition: number;
+  // Index of the hunk of the patch the line is in
+  hunk: number;
 }
 
 /**
- * Extract only the selected lines from a file's diff
+ * Number of unchanged lines kept around a selection, as in the diffs git produces
  */
-export function extractHunkForLineRange(filePatch: string, startLine: number, endLine: number): DiffHunk | null {
-  const lines = filePatch.split('\n');
-  const allDiffLines: DiffLine[] = [];
-
-  let currentOldLine = 0;
-  let currentNewLine = 0;
-  let inHunk = false;
-
-  // Parse all lines with their line numbers
-  for (const line of lines) {
-    const header = parseHunkHeader(line);
-    if (header) {
-      currentOldLine = header.oldStart;
-      currentNewLine = header.newStart;
-      inHunk = true;
-      continue;
-    }
-
-    if (!inHunk) continue;
-
-    if (line.startsWith('+')) {
-      allDiffLines.push({
-        content: line,
-        type: 'addition',
-        oldLineNum: null,
-        newLineNum: currentNewLine,
-      });
-      currentNewLine++;
-    } else if (line.startsWith('-')) {
-      allDiffLines.push({
-        content: line,
-        type: 'deletion',
-        oldLineNum: currentOldLine,
-        newLineNum: null,
-      });
-      currentOldLine++;
-    } else {
-      // Context line
-      allDiffLines.push({
-        content: line,
-        type: 'context',
-        oldLineNum: currentOldLine,
-        newLineNum: currentNewLine,
-      });
-      currentOldLine++;
-      currentNewLine++;
-    }
-  }
+const CONTEXT_LINES = 3;
 
+/**
+ * Select the diff lines of a range of lines in the new file, with the deletions they replace
+ */
+function selectNewLines(allDiffLines: DiffLine[], startLine: number, endLine: number): DiffLine[] {
   // Filter to only include lines within the selected range
   // Include a line if:
   // - It's an addition/context and its newLineNum is in range
@@ -133,17 +106,170 @@ export function extractHunkForLineRange(filePatch: string, startLine: number, en
     }
   }
 
-  if (selectedLines.length === 0) {
+  return selectedLines;
+}
+
+/**
+ * Select the diff lines between two lines on either side of the diff
+ * Lines on the left side are removed or unchanged lines of the base, found by their old line number.
+ */
+function selectAcrossSides(
+  allDiffLines: DiffLine[],
+  startLine: number,
+  endLine: number,
+  startSide: DiffSide,
+  endSide: DiffSide
+): DiffLine[] {
+  const lineNum = (diffLine: DiffLine, side: DiffSide) => (side === 'LEFT' ? diffLine.oldLineNum : diffLine.newLineNum);
+
+  const first = allDiffLines.findIndex(diffLine => {
+    const num = lineNum(diffLine, startSide);
+    return num !== null && num >= startLine;
+  });
+  let last = -1;
+  allDiffLines.forEach((diffLine, i) => {
+    const num = lineNum(diffLine, endSide);
+    if (num !== null && num <= endLine) {
+      last = i;
+    }
+  });
+
+  return first === -1 || last < first ? [] : allDiffLines.slice(first, last + 1);
+}
+
+/**
+ * Leave excluded lines out of a selection: excluded additions are dropped and excluded deletions
+ * are kept as context. Added lines are excluded by their new line number, removed lines by their old one.
+ */
+function excludeLines(selectedLines: DiffLine[], exclusion: LineExclusion): DiffLine[] {
+  const patterns = exclusion.patterns.map(parseMatchPattern).filter((p): p is RegExp => p !== null);
+  const isExcluded = (diffLine: DiffLine) => {
+    const num = diffLine.type === 'addition' ? diffLine.newLineNum : diffLine.oldLineNum;
+    return (
+      exclusion.lines.some(range => num !== null && num >= range.startLine && num <= range.endLine) ||
+      patterns.some(pattern => pattern.test(diffLine.content.substring(1)))
+    );
+  };
+
+  return selectedLines
+    .filter(diffLine => diffLine.type !== 'addition' || !isExcluded(diffLine))
+    .map(diffLine =>
+      diffLine.type === 'deletion' && isExcluded(diffLine)
+        ? { ...diffLine, content: ` ${diffLine.content.substring(1)}`, type: 'context' as const }
+        : diffLine
+    );
+}
+
+/**
+ * Extract only the selected lines from a file's diff
+ * Each end of the range is on the RIGHT (new file) or LEFT (base) side of the diff, so that
+ * removed lines can be selected too. Returns null when the exclusion leaves no changes.
+ */
+export function extractHunkForLineRange(
+  filePatch: string,
+  startLine: number,
+  endLine: number,
+  startSide: DiffSide = 'RIGHT',
+  endSide: DiffSide = startSide,
+  exclusion?: LineExclusion
+): DiffHunk | null {
+  const lines = filePatch.split('\n');
+  const allDiffLines: DiffLine[] = [];
+
+  let currentOldLine = 0;
+  let currentNewLine = 0;
+  let hunk = -1;
+
+  // Parse all lines with their line numbers
+  for (const line of lines) {
+    const header = parseHunkHeader(line);
+    if (header) {
+      currentOldLine = header.oldStart;
+      currentNewLine = header.newStart;
+      hunk++;
+      continue;
+    }
+
+    if (hunk < 0) continue;
+
+    // "\ No newline at end of file" is not a line of the file
+    if (line.startsWith('\\')) continue;
+
+    if (line.startsWith('+')) {
+      allDiffLines.push({
+        content: line,
+        type: 'addition',
+        oldLineNum: null,
+        newLineNum: currentNewLine,
+        oldPosition: currentOldLine,
+        newPosition: currentNewLine,
+        hunk,
+      });
+      currentNewLine++;
+    } else if (line.startsWith('-')) {
+      allDiffLines.push({
+        content: line,
+        type: 'deletion',
+        oldLineNum: currentOldLine,
+        newLineNum: null,
+        oldPosition: currentOldLine,
+        newPosition: currentNewLine,
+        hunk,
+      });
+      currentOldLine++;
+    } else {
+      // Context line
+      allDiffLines.push({
+        content: line,
+        type: 'context',
+        oldLineNum: currentOldLine,
+        newLineNum: currentNewLine,
+        oldPosition: currentOldLine,
+        newPosition: currentNewLine,
+        hunk,
+      });
+      currentOldLine++;
+      currentNewLine++;
+    }
+  }
+
+  const rangeLines =
+    startSide === 'RIGHT' && endSide === 'RIGHT'
+      ? selectNewLines(allDiffLines, startLine, endLine)
+      : selectAcrossSides(allDiffLines, startLine, endLine, startSide, endSide);
+
+  if (rangeLines.length === 0) {
     return null;
   }
 
   // Sort by original position in diff
-  selectedLines.sort((a, b) => {
+  rangeLines.sort((a, b) => {
     const aIdx = allDiffLines.indexOf(a);
     const bIdx = allDiffLines.indexOf(b);
     return aIdx - bIdx;
   });
 
+  const keptLines = exclusion ? excludeLines(rangeLines, exclusion) : rangeLines;
+  if (exclusion && !keptLines.some(l => l.type !== 'context')) {
+    return null;
+  }
+
+  // Keep the unchanged lines around the selection, so the hunk can be placed and verified in the base
+  // Other changes end the context, as they are neither in the base nor in the head of the PR
+  const first = allDiffLines.indexOf(rangeLines[0]);
+  const last = allDiffLines.indexOf(rangeLines[rangeLines.length - 1]);
+  const isContext = (i: number, hunkIndex: number) =>
+    allDiffLines[i]?.type === 'context' && allDiffLines[i].hunk === hunkIndex;
+  let before = first;
+  while (first - before < CONTEXT_LINES && isContext(before - 1, rangeLines[0].hunk)) {
+    before--;
+  }
+  let after = last;
+  while (after - last < CONTEXT_LINES && isContext(after + 1, rangeLines[rangeLines.length - 1].hunk)) {
+    after++;
+  }
+  const selectedLines = [...allDiffLines.slice(before, first), ...keptLines, ...allDiffLines.slice(last + 1, after + 1)];
+
   // Calculate new hunk header values
   let oldLinesCount = 0;
   let newLinesCount = 0;
@@ -160,8 +286,9 @@ export function extractHunkForLineRange(filePatch: string, startLine: number, en
   }
 
   // Find the starting line numbers
-  const firstOldLine = selectedLines.find(l => l.oldLineNum !== null)?.oldLineNum || 1;
-  const firstNewLine = selectedLines.find(l => l.newLineNum !== null)?.newLineNum || 1;
+  // Following unified diff conventions, an empty side refers to the line after which the change happens
+  const firstOldLine = oldLinesCount > 0 ? selectedLines[0].oldPosition : selectedLines[0].oldPosition - 1;
+  const firstNewLine = newLinesCount > 0 ? selectedLines[0].newPosition : selectedLines[0].newPosition - 1;
 
   // Build the hunk content with header
   const header = `@@ -${firstOldLine},${oldLinesCount} +${firstNewLine},${newLinesCount} @@`;
@@ -177,13 +304,25 @@ export function extractHunkForLineRange(filePatch: string, startLine: number, en
 }
 
 /**
- * Extract the entire hunk containing a specific line
+ * Extract the entire hunk containing a specific line, of the new file or of the base (LEFT)
  */
-export function extractEntireHunkForLine(filePatch: string, line: number): DiffHunk | null {
+export function extractEntireHunkForLine(filePatch: string, line: number, side: DiffSide = 'RIGHT'): DiffHunk | null {
   const lines = filePatch.split('\n');
-  const hunks: { header: string; lines: string[]; oldStart: number; oldLines: number; newStart: number; newLines: number; newLineStart: number; newLineEnd: number }[] = [];
+  const hunks: {
+    header: string;
+    lines: string[];
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    oldLineStart: number;
+    oldLineEnd: number;
+    newLineStart: number;
+    newLineEnd: number;
+  }[] = [];
 
   let currentHunk: typeof hunks[0] | null = null;
+  let currentOldLine = 0;
   let currentNewLine = 0;
 
   for (const patchLine of lines) {
@@ -199,9 +338,12 @@ export function extractEntireHunkForLine(filePatch: string, line: number): DiffH
         oldLines: header.oldLines,
         newStart: header.newStart,
         newLines: header.newLines,
+        oldLineStart: header.oldStart,
+        oldLineEnd: header.oldStart,
         newLineStart: header.newStart,
         newLineEnd: header.newStart,
       };
+      currentOldLine = header.oldStart;
       currentNewLine = header.newStart;
       continue;
     }
@@ -210,14 +352,20 @@ export function extractEntireHunkForLine(filePatch: string, line: number): DiffH
 
     currentHunk.lines.push(patchLine);
 
-    if (patchLine.startsWith('+')) {
+    if (patchLine.startsWith('\\')) {
+      // "\ No newline at end of file" is not a line of the file
+    } else if (patchLine.startsWith('+')) {
       currentHunk.newLineEnd = currentNewLine;
       currentNewLine++;
     } else if (patchLine.startsWith('-')) {
       // Deletions don't have new line numbers
+      currentHunk.oldLineEnd = currentOldLine;
+      currentOldLine++;
     } else {
       // Context line
+      currentHunk.oldLineEnd = currentOldLine;
       currentHunk.newLineEnd = currentNewLine;
+      currentOldLine++;
       currentNewLine++;
     }
   }
@@ -227,7 +375,9 @@ export function extractEntireHunkForLine(filePatch: string, line: number): DiffH
   }
 
   // Find the hunk containing the target line
-  const targetHunk = hunks.find(h => line >= h.newLineStart && line <= h.newLineEnd);
+  const targetHunk = hunks.find(h =>
+    side === 'LEFT' ? line >= h.oldLineStart && line <= h.oldLineEnd : line >= h.newLineStart && line <= h.newLineEnd
+  );
   if (!targetHunk) {
     return null;
   }
@@ -294,117 +444,492 @@ export function extractAllHunks(filePatch: string): DiffHunk[] {
 }
 
 /**
- * Get the file diff from a PR
+ * Find the hunks of a file's patch with an added or removed line matching a pattern
  */
-export async function getFileDiff(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  prNumber: number,
-  filePath: string
-): Promise<string | null> {
-  const { data: files } = await octokit.rest.pulls.listFiles({
-    owner,
-    repo,
-    pull_number: prNumber,
+export function findMatchingHunks(filePatch: string, pattern: RegExp): DiffHunk[] {
+  return extractAllHunks(filePatch).filter(hunk =>
+    hunk.content
+      .split('\n')
+      .slice(1)
+      .some(line => /^[+-]/.test(line) && pattern.test(line.substring(1)))
+  );
+}
+
+/**
+ * Extract the changes of a range of lines of the new file from every hunk it spans
+ */
+export function extractHunksForLineRange(
+  filePatch: string,
+  startLine: number,
+  endLine: number,
+  exclusion?: LineExclusion
+): DiffHunk[] {
+  return (
+    extractAllHunks(filePatch)
+      .map(hunk => extractHunkForLineRange(hunk.content, startLine, endLine, 'RIGHT', 'RIGHT', exclusion))
+      // Selected context lines alone change nothing
+      .filter((hunk): hunk is DiffHunk => hunk !== null && /\n[+-]/.test(hunk.content))
+  );
+}
+
+/**
+ * Reverse a hunk, so that it undoes its change when applied to the new version of the file
+ * Within each block of changes the removed lines come first, as in the diffs git produces.
+ */
+export function reverseHunk(hunk: DiffHunk): DiffHunk {
+  const [header, ...lines] = hunk.content.split('\n');
+  const section = header.replace(/^@@[^@]*@@/, '');
+  const reversed: string[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    reversed.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('+')) {
+      removed.push(`-${line.substring(1)}`);
+    } else if (line.startsWith('-')) {
+      added.push(`+${line.substring(1)}`);
+    } else if (line.startsWith('\\')) {
+      // "\ No newline at end of file" stays with the line before it
+      const previous = lines[i - 1] || '';
+      (previous.startsWith('+') ? removed : previous.startsWith('-') ? added : reversed).push(line);
+    } else {
+      flush();
+      reversed.push(line);
+    }
   });
+  flush();
+
+  return {
+    oldStart: hunk.newStart,
+    oldLines: hunk.newLines,
+    newStart: hunk.oldStart,
+    newLines: hunk.oldLines,
+    content: [`@@ -${hunk.newStart},${hunk.newLines} +${hunk.oldStart},${hunk.oldLines} @@${section}`, ...reversed].join('\n'),
+  };
+}
+
+/**
+ * Map a line range in the old version of a file to the new version through the file's diff
+ * A removed start line maps to the line that replaces it, a removed end line to the last line
+ * added in its place, so a range whose lines were all removed comes back empty (end before start).
+ * `changed` tells whether lines inside the range were added or removed.
+ */
+export function mapLineRange(
+  filePatch: string,
+  startLine: number,
+  endLine: number
+): { startLine: number; endLine: number; changed: boolean } {
+  let newStart: number | null = null;
+  let newEnd: number | null = null;
+  let changed = false;
+  let oldLine = 0;
+  let newLine = 0;
+  // The end line was removed, so the lines added in its place extend the range
+  let endRemoved = false;
+
+  for (const patchLine of filePatch.split('\n')) {
+    const header = parseHunkHeader(patchLine);
+    if (header) {
+      // A hunk without lines on one side starts after the given line
+      oldLine = header.oldLines === 0 ? header.oldStart + 1 : header.oldStart;
+      newLine = header.newLines === 0 ? header.newStart + 1 : header.newStart;
+      // Unchanged lines before the hunk keep their distance to it
+      if (newStart === null && startLine < oldLine) {
+        newStart = startLine + newLine - oldLine;
+      }
+      if (newEnd === null && endLine < oldLine) {
+        newEnd = endLine + newLine - oldLine;
+      }
+      endRemoved = false;
+      continue;
+    }
 
-  const file = files.find(f => f.filename === filePath);
-  if (!file || !file.patch) {
+    if (patchLine.startsWith('\\')) {
+      // "\ No newline at end of file" is not a line of the file
+    } else if (patchLine.startsWith('+')) {
+      if (oldLine > startLine && oldLine <= endLine) {
+        changed = true;
+      }
+      if (endRemoved) {
+        newEnd = newLine;
+      }
+      newLine++;
+    } else if (patchLine.startsWith('-')) {
+      if (oldLine >= startLine && oldLine <= endLine) {
+        changed = true;
+      }
+      if (oldLine === startLine) {
+        newStart = newLine;
+      }
+      if (oldLine === endLine) {
+        newEnd = newLine - 1;
+        endRemoved = true;
+      }
+      oldLine++;
+    } else {
+      endRemoved = false;
+      if (oldLine === startLine) {
+        newStart = newLine;
+      }
+      if (oldLine === endLine) {
+        newEnd = newLine;
+      }
+      oldLine++;
+      newLine++;
+    }
+  }
+
+  // Lines after the last hunk move by the lines it added or removed
+  return {
+    startLine: newStart ?? startLine + newLine - oldLine,
+    endLine: newEnd ?? endLine + newLine - oldLine,
+    changed,
+  };
+}
+
+/**
+ * Map the file status reported by GitHub to the statuses splice-bot handles
+ */
+export function toFileStatus(status: string): FileStatus {
+  switch (status) {
+    case 'added':
+    case 'removed':
+    case 'renamed':
+    case 'copied':
+      return status;
+    default:
+      // "changed" is a mode change only
+      return 'modified';
+  }
+}
+
+/**
+ * Get the path of a file in a `diff --git` header line such as `+++ b/src/a.ts`
+ */
+function parseDiffPath(line: string): string | null {
+  const path = line.substring(4).trim().replace(/^"(.*)"$/, '$1');
+  if (path === '/dev/null') {
     return null;
   }
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Extract the patch of a single file from a full unified diff, in the format
+ * of the `patch` field returned by the GitHub API (starting at the first hunk)
+ */
+export function extractFilePatch(rawDiff: string, filePath: string): string | null {
+  const sections = rawDiff.split(/^(?=diff --git )/m);
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+    const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+
+    const newPath = headerLines.find(line => line.startsWith('+++ '));
+    const oldPath = headerLines.find(line => line.startsWith('--- '));
+    const path = (newPath && parseDiffPath(newPath)) || (oldPath && parseDiffPath(oldPath));
+    if (path !== filePath || firstHunk === -1) {
+      continue;
+    }
+
+    const patchLines = lines.slice(firstHunk);
+    while (patchLines.length > 0 && patchLines[patchLines.length - 1] === '') {
+      patchLines.pop();
+    }
+    return patchLines.join('\n');
+  }
 
-  return file.patch;
+  return null;
 }
 
 /**
- * Get the full file content at a specific commit
+ * Get a changed file of a PR with its status and patch
  */
-export async function getFileContent(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  path: string,
-  ref: string
-): Promise<string | null> {
-  try {
-    const { data } = await octokit.rest.repos.getContent({
-      owner,
-      repo,
-      path,
-      ref,
-    });
+export async function getPrFile(forge: ForgeAdapter, prNumber: number, filePath: string): Promise<PrFile | null> {
+  const files = await forge.listPullRequestFiles(prNumber, [filePath]);
+  return files.find(f => f.path === filePath) || null;
+}
+
+/**
+ * Get the file diff from a PR
+ */
+export async function getFileDiff(forge: ForgeAdapter, prNumber: number, filePath: string): Promise<string | null> {
+  const file = await getPrFile(forge, prNumber, filePath);
+  return file?.patch || null;
+}
+
+/**
+ * Get the changes of every file in a PR
+ */
+export async function getPullRequestChanges(forge: ForgeAdapter, prNumber: number): Promise<ExtractedChange[]> {
+  const files = await forge.listPullRequestFiles(prNumber);
+
+  return files.map(f => ({
+    path: f.path,
+    hunks: f.patch ? extractAllHunks(f.patch) : [],
+    status: f.status,
+    previousPath: f.previousPath,
+  }));
+}
 
-    if ('content' in data && data.type === 'file') {
-      return Buffer.from(data.content, 'base64').toString('utf-8');
+/**
+ * Maximum number of context lines that may be ignored at either end of a hunk
+ * when it does not apply exactly (like the fuzz factor of `patch`)
+ */
+const MAX_FUZZ = 2;
+
+/**
+ * The lines a hunk expects to find in the base and the lines it produces
+ */
+interface HunkBody {
+  oldLines: string[];
+  newLines: string[];
+  leadingContext: number;
+  trailingContext: number;
+}
+
+/**
+ * Split a hunk into the lines it expects and the lines it produces
+ */
+function parseHunkBody(hunk: DiffHunk): HunkBody {
+  const body: HunkBody = { oldLines: [], newLines: [], leadingContext: 0, trailingContext: 0 };
+  let seenChange = false;
+
+  // Skip the hunk header and stop once the counts from the header are reached
+  for (const line of hunk.content.split('\n').slice(1)) {
+    if (body.oldLines.length >= hunk.oldLines && body.newLines.length >= hunk.newLines) {
+      break;
     }
 
-    return null;
-  } catch (error) {
-    return null;
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith('+')) {
+      body.newLines.push(line.substring(1));
+      seenChange = true;
+      body.trailingContext = 0;
+    } else if (line.startsWith('-')) {
+      body.oldLines.push(line.substring(1));
+      seenChange = true;
+      body.trailingContext = 0;
+    } else {
+      // Context line (an empty line is an empty context line)
+      const text = line.substring(1);
+      body.oldLines.push(text);
+      body.newLines.push(text);
+      if (seenChange) {
+        body.trailingContext++;
+      } else {
+        body.leadingContext++;
+      }
+    }
   }
+
+  return body;
 }
 
 /**
- * Apply a diff hunk to base content to get the new content
+ * Check whether the expected lines appear in the file at the given position
  */
-export function applyHunk(baseContent: string, hunk: DiffHunk): string {
-  // Handle empty base content (new files)
-  const baseLines = baseContent === '' ? [] : baseContent.split('\n');
-  const hunkLines = hunk.content.split('\n');
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, i) => lines[position + i] === line);
+}
 
-  // Remove the hunk header
-  const patchLines = hunkLines.slice(1);
+/**
+ * Find where a hunk applies, searching outwards from the expected position
+ * and ignoring up to MAX_FUZZ context lines at either end if necessary
+ */
+function locateHunk(
+  lines: string[],
+  body: HunkBody,
+  expected: number
+): { position: number; trimStart: number; trimEnd: number } | null {
+  // Pure additions without context cannot be verified, they go where the header says
+  if (body.oldLines.length === 0) {
+    return expected <= lines.length ? { position: expected, trimStart: 0, trimEnd: 0 } : null;
+  }
 
-  // Build the result
-  const result: string[] = [];
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const trimStart = Math.min(fuzz, body.leadingContext);
+    const trimEnd = Math.min(fuzz, body.trailingContext);
+    if (fuzz > 0 && trimStart + trimEnd === 0) {
+      break;
+    }
+
+    const wanted = body.oldLines.slice(trimStart, body.oldLines.length - trimEnd);
+    if (wanted.length === 0) {
+      break;
+    }
 
-  // Add lines before the hunk
-  for (let i = 0; i < hunk.oldStart - 1; i++) {
-    result.push(baseLines[i]);
+    const start = expected + trimStart;
+    const maxDistance = Math.max(start, lines.length - start);
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const position of distance === 0 ? [start] : [start - distance, start + distance]) {
+        if (matchesAt(lines, wanted, position)) {
+          return { position, trimStart, trimEnd };
+        }
+      }
+    }
   }
 
-  // Apply the hunk
-  for (const line of patchLines) {
-    if (line.startsWith('+')) {
-      // Addition - add the new line
-      result.push(line.substring(1));
-    } else if (line.startsWith('-')) {
-      // Deletion - skip this line from base
+  return null;
+}
+
+/**
+ * Describe which lines of a hunk do not match the file at the expected position
+ */
+function describeConflict(lines: string[], body: HunkBody, expected: number, hunk: DiffHunk): HunkConflict {
+  const conflictLines: ConflictLine[] = [];
+
+  body.oldLines.forEach((line, i) => {
+    const actual = expected + i < lines.length ? lines[expected + i] : null;
+    if (actual !== line) {
+      conflictLines.push({ lineNumber: hunk.oldStart + i, expected: line, actual });
+    }
+  });
+
+  return { hunk, lines: conflictLines };
+}
+
+/**
+ * Apply hunks to base content, verifying context and deletions against the base
+ * Hunks that drifted are located by offset; hunks that don't match are reported as conflicts
+ */
+export function applyPatch(baseContent: string, hunks: DiffHunk[]): PatchResult {
+  // Handle empty base content (new files)
+  const lines = baseContent === '' ? [] : baseContent.split('\n');
+  const conflicts: HunkConflict[] = [];
+
+  // Offset between positions in the base and the partially patched result
+  let offset = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const body = parseHunkBody(hunk);
+    const expected = (body.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+
+    const match = locateHunk(lines, body, expected);
+    if (!match) {
+      conflicts.push(describeConflict(lines, body, expected, hunk));
       continue;
-    } else if (line.startsWith(' ') || line === '') {
-      // Context line
-      result.push(line.substring(1) || '');
     }
+
+    const { position, trimStart, trimEnd } = match;
+    const removed = body.oldLines.length - trimStart - trimEnd;
+    const added = body.newLines.slice(trimStart, body.newLines.length - trimEnd);
+    lines.splice(position, removed, ...added);
+
+    offset += position - (expected + trimStart) + added.length - removed;
   }
 
-  // Add lines after the hunk
-  const afterHunkStart = hunk.oldStart - 1 + hunk.oldLines;
-  for (let i = afterHunkStart; i < baseLines.length; i++) {
-    result.push(baseLines[i]);
+  return {
+    success: conflicts.length === 0,
+    content: lines.join('\n'),
+    conflicts,
+  };
+}
+
+/**
+ * Apply a diff hunk to base content to get the new content
+ * Throws if the hunk does not match the base content
+ */
+export function applyHunk(baseContent: string, hunk: DiffHunk): string {
+  const result = applyPatch(baseContent, [hunk]);
+  if (!result.success) {
+    const lineNumbers = result.conflicts[0].lines.map(l => l.lineNumber).join(', ');
+    throw new Error(`Hunk ${hunk.content.split('\n')[0]} does not apply (conflicting lines: ${lineNumbers})`);
   }
+  return result.content;
+}
+
+/**
+ * Compute the new content of every changed file by applying its hunks to the base
+ * Hunks without context or removed lines can only be placed by their line numbers, which are
+ * those of the PR's base (`prBaseRef`), so they conflict if the file changed since then.
+ */
+export async function buildFileUpdates(
+  forge: ForgeAdapter,
+  changes: ExtractedChange[],
+  ref: string,
+  prBaseRef?: string
+): Promise<{ files: FileUpdate[]; conflicts: FileConflict[] }> {
+  const files: FileUpdate[] = [];
+  const conflicts: FileConflict[] = [];
+
+  for (const change of changes) {
+    // Renamed and copied files start from the content at their previous path
+    // For new files, baseContent will be null - start with empty string
+    const basePath = change.previousPath || change.path;
+    // Removed files have no mode in the PR, so it's the mode of the base tree entry
+    const mode =
+      change.mode || (change.status === 'removed' ? await forge.getFileMode(basePath, ref) : null) || '100644';
+
+    // A removed file selected as a whole, without a patch (e.g. binary or empty)
+    if (change.status === 'removed' && change.hunks.length === 0) {
+      files.push({ path: change.path, content: null, mode });
+      continue;
+    }
 
-  return result.join('\n');
+    const baseContent =
+      change.status === 'added' ? null : await forge.getFileContent(basePath, ref);
+
+    const unanchored = change.hunks.filter(h => parseHunkBody(h).oldLines.length === 0);
+    if (prBaseRef && prBaseRef !== ref && baseContent && unanchored.length > 0) {
+      if ((await forge.getFileContent(basePath, prBaseRef)) !== baseContent) {
+        conflicts.push({ path: change.path, hunks: unanchored.map(hunk => ({ hunk, lines: [] })) });
+        continue;
+      }
+    }
+
+    const result = applyPatch(baseContent || '', change.hunks);
+
+    if (!result.success) {
+      conflicts.push({ path: change.path, hunks: result.conflicts });
+      continue;
+    }
+
+    if (change.status === 'removed' && result.content === '') {
+      // Only a selection of all lines of a removed file removes the file
+      files.push({ path: change.path, content: null, mode });
+    } else {
+      files.push({ path: change.path, content: result.content, mode });
+    }
+
+    if (change.status === 'renamed' && change.previousPath) {
+      files.push({ path: change.previousPath, content: null, mode });
+    }
+  }
+
+  return { files, conflicts };
 }
 
 /**
  * Extract changes for a specific file and line range
  */
 export async function extractChanges(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
+  forge: ForgeAdapter,
   prNumber: number,
   filePath: string,
   startLine: number,
-  endLine: number
+  endLine: number,
+  startSide: DiffSide = 'RIGHT',
+  endSide: DiffSide = startSide
 ): Promise<ExtractedChange | null> {
-  const patch = await getFileDiff(octokit, owner, repo, prNumber, filePath);
-  if (!patch) {
+  const file = await getPrFile(forge, prNumber, filePath);
+  if (!file?.patch) {
     return null;
   }
 
-  const hunk = extractHunkForLineRange(patch, startLine, endLine);
+  const hunk = extractHunkForLineRange(file.patch, startLine, endLine, startSide, endSide);
   if (!hunk) {
     return null;
   }
@@ -412,5 +937,200 @@ export async function extractChanges(
   return {
     path: filePath,
     hunks: [hunk],
+    status: file.status,
+    previousPath: file.previousPath,
+  };
+}
+
+/**
+ * Drop up to `leading` and `trailing` context lines from the ends of a hunk
+ */
+function trimContext(hunk: DiffHunk, leading: number, trailing: number): DiffHunk {
+  const body = hunk.content.split('\n').slice(1);
+  const isContext = (line: string) => !/^[+\-\\]/.test(line);
+
+  let start = 0;
+  while (start < leading && start < body.length && isContext(body[start])) {
+    start++;
+  }
+  let end = body.length;
+  while (body.length - end < trailing && end > start && isContext(body[end - 1])) {
+    end--;
+  }
+
+  const trimmed = start + body.length - end;
+  const oldLines = hunk.oldLines - trimmed;
+  const newLines = hunk.newLines - trimmed;
+  // Following unified diff conventions, an empty side refers to the line after which the change happens
+  const oldStart = oldLines > 0 ? hunk.oldStart + start : hunk.oldStart + start - 1;
+  const newStart = newLines > 0 ? hunk.newStart + start : hunk.newStart + start - 1;
+
+  return {
+    oldStart,
+    oldLines,
+    newStart,
+    newLines,
+    content: [`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`, ...body.slice(start, end)].join('\n'),
   };
 }
+
+/**
+ * Merge changes from several selections into one change per file
+ * Files keep the order in which they were first selected, hunks are sorted by position.
+ * Selections next to each other share context lines, which only one of their hunks keeps.
+ */
+export function mergeChanges(changes: ExtractedChange[]): ExtractedChange[] {
+  const byPath = new Map<string, ExtractedChange>();
+
+  for (const change of changes) {
+    const merged = byPath.get(change.path) || { ...change, hunks: [] };
+    for (const hunk of change.hunks) {
+      // The same hunk may be selected by several comments
+      if (!merged.hunks.some(h => h.content === hunk.content)) {
+        merged.hunks.push(hunk);
+      }
+    }
+    byPath.set(change.path, merged);
+  }
+
+  const merged: ExtractedChange[] = [];
+  for (const change of byPath.values()) {
+    const { path, hunks } = change;
+    hunks.sort((a, b) => a.oldStart - b.oldStart);
+
+    for (let i = 1; i < hunks.length; i++) {
+      const overlap = (a: DiffHunk, b: DiffHunk) => a.oldStart + a.oldLines - b.oldStart;
+      if (overlap(hunks[i - 1], hunks[i]) > 0) {
+        hunks[i - 1] = trimContext(hunks[i - 1], 0, overlap(hunks[i - 1], hunks[i]));
+      }
+      if (overlap(hunks[i - 1], hunks[i]) > 0) {
+        hunks[i] = trimContext(hunks[i], overlap(hunks[i - 1], hunks[i]), 0);
+      }
+
+      const prev = hunks[i - 1];
+      const curr = hunks[i];
+      if (curr.oldStart < prev.oldStart + prev.oldLines) {
+        throw new Error(
+          `Overlapping selections in ${path} (around line ${curr.newStart}). Please adjust the selected ranges.`
+        );
+      }
+    }
+
+    merged.push(change);
+  }
+
+  return merged;
+}
+
+/**
+ * Get the added and removed lines of a hunk, keyed by their position in the base
+ */
+function changedLines(hunk: DiffHunk): string[] {
+  const keys: string[] = [];
+  let oldLine = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+
+  for (const line of hunk.content.split('\n').slice(1)) {
+    if (line.startsWith('+')) {
+      keys.push(`${oldLine}:${line}`);
+    } else if (line.startsWith('-')) {
+      keys.push(`${oldLine}:${line}`);
+      oldLine++;
+    } else if (!line.startsWith('\\')) {
+      oldLine++;
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Compare two sets of changes
+ * They are identical if they make the same changes at the same positions in every file
+ * (context is ignored), and overlapping if they share any such change
+ */
+export function compareChanges(a: ExtractedChange[], b: ExtractedChange[]): 'identical' | 'overlapping' | 'distinct' {
+  const linesByPath = (changes: ExtractedChange[]) =>
+    new Map(changes.map(c => [c.path, c.hunks.flatMap(changedLines).join('\n')]));
+
+  const aLines = linesByPath(a);
+  const bLines = linesByPath(b);
+  if (aLines.size === bLines.size && [...aLines].every(([path, lines]) => bLines.get(path) === lines)) {
+    return 'identical';
+  }
+
+  for (const aChange of a) {
+    const bChange = b.find(c => c.path === aChange.path);
+    if (!bChange) {
+      continue;
+    }
+    const bKeys = new Set(bChange.hunks.flatMap(changedLines));
+    if (aChange.hunks.flatMap(changedLines).some(key => bKeys.has(key))) {
+      return 'overlapping';
+    }
+  }
+
+  return 'distinct';
+}
+
+/**
+ * Find the hunks of one set of changes that share a change with another set,
+ * e.g. the hunks of a PR that a merged splice has brought into the base
+ */
+export function findSharedHunks(changes: ExtractedChange[], other: ExtractedChange[]): { path: string; hunk: DiffHunk }[] {
+  const shared: { path: string; hunk: DiffHunk }[] = [];
+
+  for (const change of changes) {
+    const otherChange = other.find(c => c.path === change.path);
+    if (!otherChange) {
+      continue;
+    }
+    const otherKeys = new Set(otherChange.hunks.flatMap(changedLines));
+    for (const hunk of change.hunks) {
+      if (changedLines(hunk).some(key => otherKeys.has(key))) {
+        shared.push({ path: change.path, hunk });
+      }
+    }
+  }
+
+  return shared;
+}
+
+/**
+ * Format changes as a unified diff that `git apply` accepts
+ * Removed files are only deleted if listed in deletedFiles, i.e. all their lines were selected
+ */
+export function formatPatch(changes: ExtractedChange[], deletedFiles: FileUpdate[] = []): string {
+  const parts: string[] = [];
+
+  for (const change of changes) {
+    const oldPath = change.previousPath || change.path;
+    const deleted = change.status === 'removed' ? deletedFiles.find(f => f.path === change.path) : undefined;
+    parts.push(`diff --git a/${oldPath} b/${change.path}`);
+
+    if (change.status === 'added') {
+      parts.push(`new file mode ${change.mode || '100644'}`);
+    } else if (deleted) {
+      parts.push(`deleted file mode ${deleted.mode}`);
+    } else if (change.oldMode && change.mode && change.oldMode !== change.mode) {
+      parts.push(`old mode ${change.oldMode}`, `new mode ${change.mode}`);
+    }
+
+    if (change.status === 'renamed' && change.previousPath) {
+      parts.push(`rename from ${change.previousPath}`, `rename to ${change.path}`);
+    } else if (change.status === 'copied' && change.previousPath) {
+      parts.push(`copy from ${change.previousPath}`, `copy to ${change.path}`);
+    }
+
+    if (change.hunks.length > 0) {
+      parts.push(
+        change.status === 'added' ? '--- /dev/null' : `--- a/${oldPath}`,
+        deleted ? '+++ /dev/null' : `+++ b/${change.path}`
+      );
+      for (const hunk of change.hunks) {
+        parts.push(hunk.content);
+      }
+    }
+  }
+
+  return parts.join('\n') + '\n';
+}
@@ -0,0 +1,49 @@
+import { GitBackend } from './backend';
+import { CommentContext, CommitComparison, FileMode, OpenPullRequest, PrFile, PullRequestDetails } from './types';
+
+/**
+ * The operations of a code forge that a splice needs
+ * Pull requests are GitHub pull requests or GitLab merge requests, identified by their number (iid).
+ */
+export interface ForgeAdapter {
+  // Branches and commits
+  git: GitBackend;
+
+  getPullRequest(prNumber: number): Promise<PullRequestDetails>;
+  /**
+   * List the changed files of a pull request with their patches, which may only be
+   * needed for the given paths
+   */
+  listPullRequestFiles(prNumber: number, patchPaths?: string[]): Promise<PrFile[]>;
+  /**
+   * List the files changed from one commit to another, or null if they can't be compared directly,
+   * e.g. when `head` doesn't build on `base` after a force-push
+   */
+  compareCommits(base: string, head: string): Promise<CommitComparison | null>;
+  /**
+   * List the files changed on `head` since it branched off `base`, like the changed files
+   * of a pull request whose head is `head`
+   */
+  listChangedFiles(base: string, head: string): Promise<PrFile[]>;
+  getFileContent(path: string, ref: string): Promise<string | null>;
+  getFileMode(path: string, ref: string): Promise<FileMode | null>;
+  // Inline comments on the diff of a pull request
+  listReviewComments(prNumber: number): Promise<CommentContext[]>;
+
+  listOpenPullRequests(): Promise<OpenPullRequest[]>;
+  createPullRequest(
+    title: string,
+    body: string,
+    head: string,
+    base: string,
+    draft: boolean
+  ): Promise<{ number: number; url: string }>;
+  updatePullRequest(prNumber: number, title: string, body: string): Promise<{ number: number; url: string }>;
+  updatePullRequestBase(prNumber: number, base: string): Promise<void>;
+  addLabels(prNumber: number, labels: string[]): Promise<void>;
+  requestReviewers(prNumber: number, reviewers: string[]): Promise<void>;
+
+  // Reply in the thread of a comment
+  replyToComment(comment: CommentContext, message: string): Promise<void>;
+  createComment(prNumber: number, body: string): Promise<void>;
+}
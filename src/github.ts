@@ -1,9 +1,41 @@
 import { GitHub } from '@actions/github/lib/utils';
-import { CommentContext, ExtractedChange, DiffHunk } from './types';
-import { getFileContent, applyHunk } from './diff';
+import {
+  CommentContext,
+  CommitComparison,
+  FileUpdate,
+  FileMode,
+  OpenPullRequest,
+  PrFile,
+  PullRequestDetails,
+} from './types';
+import { SpliceCache, memoize } from './cache';
+import { toFileStatus, extractFilePatch } from './diff';
+import { GitBackend } from './backend';
+import { ForgeAdapter } from './forge';
 
 type Octokit = InstanceType<typeof GitHub>;
 
+export type ReviewComment = Awaited<ReturnType<Octokit['rest']['pulls']['listReviewComments']>>['data'][number];
+
+/**
+ * The fields of a review comment that are common to all endpoints returning one
+ */
+export type ReviewCommentData = Pick<
+  ReviewComment,
+  | 'id'
+  | 'path'
+  | 'line'
+  | 'original_line'
+  | 'start_line'
+  | 'original_start_line'
+  | 'side'
+  | 'start_side'
+  | 'diff_hunk'
+  | 'body'
+  | 'commit_id'
+  | 'in_reply_to_id'
+> & { user: { login: string; id: number } | null };
+
 /**
  * Get PR details
  */
@@ -12,7 +44,7 @@ export async function getPrDetails(
   owner: string,
   repo: string,
   prNumber: number
-): Promise<{ title: string; baseBranch: string; headBranch: string; headSha: string }> {
+): Promise<PullRequestDetails> {
   const { data: pr } = await octokit.rest.pulls.get({
     owner,
     repo,
@@ -24,9 +56,329 @@ export async function getPrDetails(
     baseBranch: pr.base.ref,
     headBranch: pr.head.ref,
     headSha: pr.head.sha,
+    baseSha: pr.base.sha,
+    // The head repository is null when the fork was deleted
+    fromFork: pr.head.repo?.full_name !== pr.base.repo.full_name,
+  };
+}
+
+/**
+ * Get a pull request as returned by the API, e.g. to rebuild an event payload
+ */
+export async function getPullRequestData(octokit: Octokit, owner: string, repo: string, prNumber: number) {
+  const { data: pr } = await octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: prNumber,
+  });
+
+  return pr;
+}
+
+/**
+ * Get the role of a user in the repository, e.g. "triage" or the name of a custom role
+ */
+export async function getPermissionLevel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string
+): Promise<{ permission: string; roleName: string }> {
+  const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+    owner,
+    repo,
+    username,
+  });
+
+  return { permission: data.permission, roleName: data.role_name };
+}
+
+/**
+ * Check whether a user is an active member of a team
+ */
+export async function isTeamMember(octokit: Octokit, org: string, teamSlug: string, username: string): Promise<boolean> {
+  try {
+    const { data } = await octokit.rest.teams.getMembershipForUserInOrg({
+      org,
+      team_slug: teamSlug,
+      username,
+    });
+    return data.state === 'active';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the commit author information for a GitHub user
+ */
+export function getAuthor(user: { login: string; id: number } | null | undefined): { authorLogin: string; authorEmail: string } {
+  const authorLogin = user?.login || 'github-actions[bot]';
+  const authorEmail = user?.id
+    ? `${user.id}+${authorLogin}@users.noreply.github.com`
+    : 'github-actions[bot]@users.noreply.github.com';
+
+  return { authorLogin, authorEmail };
+}
+
+/**
+ * Build the comment context from a review comment
+ */
+export function toCommentContext(comment: ReviewCommentData, prNumber: number): CommentContext {
+  // For multi-line comments, start_line is the first line and line is the last
+  // For single-line comments, start_line is null
+  // The lines are on the side of the diff given by start_side and side, LEFT for removed lines
+  const endLine = comment.line || comment.original_line || 0;
+  const startLine = comment.start_line || endLine;
+  const side = comment.side === 'LEFT' ? 'LEFT' : 'RIGHT';
+  const startSide = (comment.start_side || side) === 'LEFT' ? 'LEFT' : 'RIGHT';
+
+  const { authorLogin, authorEmail } = getAuthor(comment.user);
+
+  return {
+    commentId: comment.id,
+    prNumber,
+    path: comment.path,
+    startLine,
+    endLine,
+    originalStartLine: comment.original_start_line || comment.original_line || null,
+    originalEndLine: comment.original_line || null,
+    startSide,
+    side,
+    diffHunk: comment.diff_hunk,
+    body: comment.body,
+    commitId: comment.commit_id,
+    authorLogin,
+    authorEmail,
+  };
+}
+
+/**
+ * Get the full unified diff of a PR
+ */
+async function getRawDiff(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  cache?: SpliceCache
+): Promise<string | null> {
+  return memoize(cache, 'rawDiffs', `${owner}/${repo}#${prNumber}`, async () => {
+    try {
+      const { data } = await octokit.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: prNumber,
+        mediaType: { format: 'diff' },
+      });
+
+      // With the diff media type, the response is the diff itself
+      return data as unknown as string;
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Get all changed files of a PR with their status and patch
+ * GitHub omits the patch of large files; those are taken from the full diff instead,
+ * for all files or only for the given paths
+ */
+export async function listPrFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  patchPaths?: string[],
+  cache?: SpliceCache
+): Promise<PrFile[]> {
+  const files = await memoize(cache, 'prFiles', `${owner}/${repo}#${prNumber}`, () =>
+    octokit.paginate(octokit.rest.pulls.listFiles, {
+      owner,
+      repo,
+      pull_number: prNumber,
+      per_page: 100,
+    })
+  );
+
+  const prFiles = files.map(toPrFile);
+
+  // Files without changes (pure renames, mode changes) have no patch either
+  const missing = prFiles.filter(
+    (file, i) => !file.patch && files[i].changes > 0 && (!patchPaths || patchPaths.includes(file.path))
+  );
+  if (missing.length > 0) {
+    const rawDiff = await getRawDiff(octokit, owner, repo, prNumber, cache);
+    if (rawDiff) {
+      for (const file of missing) {
+        file.patch = extractFilePatch(rawDiff, file.path);
+      }
+    }
+  }
+
+  return prFiles;
+}
+
+/**
+ * Map a file of a PR or comparison to a changed file
+ */
+function toPrFile(file: { filename: string; status: string; previous_filename?: string; patch?: string }): PrFile {
+  return {
+    path: file.filename,
+    status: toFileStatus(file.status),
+    previousPath: file.previous_filename,
+    patch: file.patch || null,
   };
 }
 
+/**
+ * Compare two commits, returning null unless `head` is `base` plus new commits
+ */
+export async function compareCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<CommitComparison | null> {
+  const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${base}...${head}`,
+  });
+
+  // Diverged commits are compared to their merge base, which doesn't tell how `base` changed
+  if (data.status !== 'ahead' && data.status !== 'identical') {
+    return null;
+  }
+
+  return { commits: data.ahead_by, files: (data.files || []).map(toPrFile) };
+}
+
+/**
+ * List the files changed on `head` since its merge base with `base`
+ */
+export async function listChangedFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  cache?: SpliceCache
+): Promise<PrFile[]> {
+  return memoize(cache, 'changedFiles', `${owner}/${repo}:${base}...${head}`, async () => {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+    });
+    return (data.files || []).map(toPrFile);
+  });
+}
+
+/**
+ * Get the full file content at a specific commit
+ */
+export async function getFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string,
+  cache?: SpliceCache
+): Promise<string | null> {
+  return memoize(cache, 'contents', `${owner}/${repo}:${path}@${ref}`, async () => {
+    try {
+      const { data } = await octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+      });
+
+      if ('content' in data && data.type === 'file') {
+        return Buffer.from(data.content, 'base64').toString('utf-8');
+      }
+
+      // The content of a symlink is its target
+      if ('target' in data && data.type === 'symlink') {
+        return data.target;
+      }
+
+      return null;
+    } catch (error) {
+      return null;
+    }
+  });
+}
+
+/**
+ * Get the mode of a file at a specific commit, walking the tree one directory at a time
+ */
+export async function getFileMode(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string,
+  cache?: SpliceCache
+): Promise<FileMode | null> {
+  return memoize(cache, 'modes', `${owner}/${repo}:${path}@${ref}`, async () => {
+    try {
+      const segments = path.split('/');
+      let treeSha = ref;
+
+      for (let i = 0; i < segments.length; i++) {
+        const { data: tree } = await octokit.rest.git.getTree({ owner, repo, tree_sha: treeSha });
+        const entry = tree.tree.find(e => e.path === segments[i]);
+        if (!entry || !entry.sha) {
+          return null;
+        }
+
+        if (i === segments.length - 1) {
+          return entry.mode === '100755' || entry.mode === '120000' ? entry.mode : '100644';
+        }
+        treeSha = entry.sha;
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Get the user the token belongs to, or null for tokens without a user (e.g. GitHub Apps)
+ */
+export async function getAuthenticatedUser(octokit: Octokit): Promise<{ login: string; id: number } | null> {
+  try {
+    const { data: user } = await octokit.rest.users.getAuthenticated();
+    return { login: user.login, id: user.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the SHA of the commit a branch points to
+ */
+export async function getBranchSha(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branchName: string
+): Promise<string> {
+  const { data: ref } = await octokit.rest.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${branchName}`,
+  });
+
+  return ref.object.sha;
+}
+
 /**
  * Create a new branch from the base branch
  */
@@ -38,18 +390,14 @@ export async function createBranch(
   baseBranch: string
 ): Promise<void> {
   // Get the SHA of the base branch
-  const { data: ref } = await octokit.rest.git.getRef({
-    owner,
-    repo,
-    ref: `heads/${baseBranch}`,
-  });
+  const baseSha = await getBranchSha(octokit, owner, repo, baseBranch);
 
   // Create the new branch
   await octokit.rest.git.createRef({
     owner,
     repo,
     ref: `refs/heads/${branchName}`,
-    sha: ref.object.sha,
+    sha: baseSha,
   });
 }
 
@@ -92,57 +440,47 @@ async function createBlob(
 
 /**
  * Commit changes to the new branch
+ * The tree is always built on top of the base branch. Without a parent SHA the commit
+ * is parented on the base and the branch is reset to it; with one, the commit is
+ * pushed on top of that parent.
  */
 export async function commitChanges(
   octokit: Octokit,
   owner: string,
   repo: string,
   branchName: string,
-  changes: ExtractedChange,
+  files: FileUpdate[],
   baseBranch: string,
   commitMessage: string,
   originalPrNumber: number,
   authorName: string,
-  authorEmail: string
+  authorEmail: string,
+  parentSha?: string
 ): Promise<string> {
   // Get the base branch SHA
-  const { data: baseRef } = await octokit.rest.git.getRef({
-    owner,
-    repo,
-    ref: `heads/${baseBranch}`,
-  });
-  const baseSha = baseRef.object.sha;
+  const baseSha = await getBranchSha(octokit, owner, repo, baseBranch);
 
   // Get the base tree
   const baseTreeSha = await getTreeSha(octokit, owner, repo, baseSha);
 
-  // Get the original file content from base
-  // For new files, baseContent will be null - start with empty string
-  const baseContent = await getFileContent(octokit, owner, repo, changes.path, baseBranch);
-
-  // Apply all hunks to get the new content
-  // For new files (baseContent is null), the hunk contains only additions
-  let newContent = baseContent || '';
-  for (const hunk of changes.hunks) {
-    newContent = applyHunk(newContent, hunk);
+  // Create a blob for the new content of every file, deleted files get no blob
+  const treeEntries: { path: string; mode: FileMode; type: 'blob'; sha: string | null }[] = [];
+  for (const file of files) {
+    const blobSha = file.content === null ? null : await createBlob(octokit, owner, repo, file.content);
+    treeEntries.push({
+      path: file.path,
+      mode: file.mode,
+      type: 'blob',
+      sha: blobSha,
+    });
   }
 
-  // Create a blob for the new content
-  const blobSha = await createBlob(octokit, owner, repo, newContent);
-
-  // Create a new tree with the updated file
+  // Create a new tree with the updated files
   const { data: newTree } = await octokit.rest.git.createTree({
     owner,
     repo,
     base_tree: baseTreeSha,
-    tree: [
-      {
-        path: changes.path,
-        mode: '100644',
-        type: 'blob',
-        sha: blobSha,
-      },
-    ],
+    tree: treeEntries,
   });
 
   // Create the commit with the comment author as the commit author
@@ -152,7 +490,7 @@ export async function commitChanges(
     repo,
     message: fullMessage,
     tree: newTree.sha,
-    parents: [baseSha],
+    parents: [parentSha || baseSha],
     author: {
       name: authorName,
       email: authorEmail,
@@ -165,6 +503,7 @@ export async function commitChanges(
     repo,
     ref: `heads/${branchName}`,
     sha: newCommit.sha,
+    force: !parentSha,
   });
 
   return newCommit.sha;
@@ -199,6 +538,135 @@ export async function createPullRequest(
   };
 }
 
+/**
+ * Update the title and description of a pull request
+ */
+export async function updatePullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  title: string,
+  body: string
+): Promise<{ number: number; url: string }> {
+  const { data: pr } = await octokit.rest.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    title,
+    body,
+  });
+
+  return {
+    number: pr.number,
+    url: pr.html_url,
+  };
+}
+
+/**
+ * Change the base branch of a pull request
+ */
+export async function updatePullRequestBase(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  base: string
+): Promise<void> {
+  await octokit.rest.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    base,
+  });
+}
+
+/**
+ * Close a pull request without merging it
+ */
+export async function closePullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<void> {
+  await octokit.rest.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    state: 'closed',
+  });
+}
+
+/**
+ * Merge the base branch into the head branch of a pull request
+ * Returns why it couldn't be merged (e.g. conflicts, or new commits on the head), or null on success
+ */
+export async function updatePullRequestBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  expectedHeadSha: string
+): Promise<string | null> {
+  try {
+    await octokit.rest.pulls.updateBranch({
+      owner,
+      repo,
+      pull_number: prNumber,
+      expected_head_sha: expectedHeadSha,
+    });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * List open pull requests
+ */
+export async function listOpenPullRequests(
+  octokit: Octokit,
+  owner: string,
+  repo: string
+): Promise<OpenPullRequest[]> {
+  const prs = await octokit.paginate(octokit.rest.pulls.list, {
+    owner,
+    repo,
+    state: 'open',
+    per_page: 100,
+  });
+
+  return prs.map(pr => ({
+    number: pr.number,
+    url: pr.html_url,
+    body: pr.body || '',
+    headBranch: pr.head.ref,
+    baseBranch: pr.base.ref,
+    fromFork: pr.head.repo?.full_name !== pr.base.repo.full_name,
+  }));
+}
+
+/**
+ * Check whether a branch already contains the tip of the base branch
+ */
+export async function isUpToDateWith(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branchName: string,
+  baseBranch: string
+): Promise<boolean> {
+  const { data: comparison } = await octokit.rest.repos.compareCommits({
+    owner,
+    repo,
+    base: baseBranch,
+    head: branchName,
+  });
+
+  return comparison.behind_by === 0;
+}
+
 /**
  * Add labels to a pull request
  */
@@ -236,37 +704,73 @@ export async function requestReviewers(
 }
 
 /**
- * Check if changes would conflict with base branch
- * Returns true if there might be conflicts
+ * List all review comments on a pull request
  */
-export async function checkForConflicts(
+export async function listReviewComments(
   octokit: Octokit,
   owner: string,
   repo: string,
-  path: string,
-  baseBranch: string,
-  prHeadBranch: string
-): Promise<boolean> {
-  try {
-    // Compare the base branch with the PR head to see if the file was modified
-    const { data: comparison } = await octokit.rest.repos.compareCommits({
-      owner,
-      repo,
-      base: baseBranch,
-      head: prHeadBranch,
-    });
+  prNumber: number
+): Promise<ReviewComment[]> {
+  return octokit.paginate(octokit.rest.pulls.listReviewComments, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  });
+}
+
+/**
+ * Get a review comment together with the number of its pull request
+ */
+export async function getReviewComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number
+): Promise<{ comment: ReviewComment; prNumber: number }> {
+  const { data: comment } = await octokit.rest.pulls.getReviewComment({
+    owner,
+    repo,
+    comment_id: commentId,
+  });
 
-    // Check if the file exists in both the base branch changes and our splice
-    // This is a simplified check - true conflicts would need actual merge attempt
-    const modifiedInBase = comparison.files?.some(
-      f => f.filename === path && f.status !== 'added'
-    );
+  // e.g. https://api.github.com/repos/octocat/hello-world/pulls/42
+  const prNumber = parseInt(comment.pull_request_url.split('/').pop() || '', 10);
+  return { comment, prNumber };
+}
 
-    return modifiedInBase || false;
-  } catch {
-    // If comparison fails, assume no conflicts to avoid blocking
-    return false;
-  }
+/**
+ * Get a submitted review of a pull request
+ */
+export async function getReview(octokit: Octokit, owner: string, repo: string, prNumber: number, reviewId: number) {
+  const { data: review } = await octokit.rest.pulls.getReview({
+    owner,
+    repo,
+    pull_number: prNumber,
+    review_id: reviewId,
+  });
+
+  return review;
+}
+
+/**
+ * List the inline comments of a single review
+ */
+export async function listCommentsForReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  reviewId: number
+): Promise<ReviewCommentData[]> {
+  return octokit.paginate(octokit.rest.pulls.listCommentsForReview, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    review_id: reviewId,
+    per_page: 100,
+  });
 }
 
 /**
@@ -344,3 +848,36 @@ export async function deleteBranch(
     ref: `heads/${branchName}`,
   });
 }
+
+/**
+ * Create the forge adapter for a GitHub repository
+ */
+export function createGitHubAdapter(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  git: GitBackend,
+  cache?: SpliceCache
+): ForgeAdapter {
+  return {
+    git,
+    getPullRequest: prNumber => getPrDetails(octokit, owner, repo, prNumber),
+    listPullRequestFiles: (prNumber, patchPaths) => listPrFiles(octokit, owner, repo, prNumber, patchPaths, cache),
+    compareCommits: (base, head) => compareCommits(octokit, owner, repo, base, head),
+    listChangedFiles: (base, head) => listChangedFiles(octokit, owner, repo, base, head, cache),
+    getFileContent: (path, ref) => getFileContent(octokit, owner, repo, path, ref, cache),
+    getFileMode: (path, ref) => getFileMode(octokit, owner, repo, path, ref, cache),
+    listReviewComments: async prNumber =>
+      (await listReviewComments(octokit, owner, repo, prNumber)).map(c => toCommentContext(c, prNumber)),
+    listOpenPullRequests: () => listOpenPullRequests(octokit, owner, repo),
+    createPullRequest: (title, body, head, base, draft) =>
+      createPullRequest(octokit, owner, repo, title, body, head, base, draft),
+    updatePullRequest: (prNumber, title, body) => updatePullRequest(octokit, owner, repo, prNumber, title, body),
+    updatePullRequestBase: (prNumber, base) => updatePullRequestBase(octokit, owner, repo, prNumber, base),
+    addLabels: (prNumber, labels) => addLabels(octokit, owner, repo, prNumber, labels),
+    requestReviewers: (prNumber, reviewers) => requestReviewers(octokit, owner, repo, prNumber, reviewers),
+    replyToComment: (comment, message) =>
+      replyToComment(octokit, owner, repo, comment.prNumber, comment.commentId, message),
+    createComment: (prNumber, body) => createIssueComment(octokit, owner, repo, prNumber, body),
+  };
+}
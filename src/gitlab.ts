@@ -0,0 +1,658 @@
+import { SpliceCache, memoize } from './cache';
+import { GitBackend } from './backend';
+import { ForgeAdapter } from './forge';
+import {
+  CommentContext,
+  CommitComparison,
+  DiffSide,
+  FileMode,
+  FileStatus,
+  FileUpdate,
+  OpenPullRequest,
+  PrFile,
+  PullRequestDetails,
+} from './types';
+
+/**
+ * Connection to a GitLab project
+ */
+export interface GitLabClient {
+  // REST API root, e.g. https://gitlab.com/api/v4
+  apiUrl: string;
+  token: string;
+  // Numeric id or full path of the project, e.g. "group/project"
+  projectId: number | string;
+}
+
+export interface MergeRequestDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  title: string;
+  description: string | null;
+  source_branch: string;
+  target_branch: string;
+  source_project_id: number;
+  target_project_id: number;
+  sha: string;
+  // Unset while the diff of a new merge request is being computed
+  diff_refs: { base_sha: string } | null;
+}
+
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+interface GitLabLinePosition {
+  new_line: number | null;
+  old_line: number | null;
+}
+
+interface GitLabPosition extends GitLabLinePosition {
+  new_path: string;
+  old_path: string;
+  head_sha: string;
+  // Set for comments on several lines
+  line_range?: { start: GitLabLinePosition; end: GitLabLinePosition } | null;
+}
+
+export interface GitLabNote {
+  id: number;
+  body: string;
+  author: GitLabUser;
+  position?: GitLabPosition | null;
+}
+
+/**
+ * Send a request to the GitLab API, throwing if it fails
+ */
+async function request(
+  client: Pick<GitLabClient, 'apiUrl' | 'token'>,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<Response> {
+  const response = await fetch(`${client.apiUrl}${path}`, {
+    method,
+    headers: {
+      'PRIVATE-TOKEN': client.token,
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitLab API request ${method} ${path} failed with status ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Send a request to the GitLab API and return the JSON response
+ */
+async function requestJson<T>(
+  client: Pick<GitLabClient, 'apiUrl' | 'token'>,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const response = await request(client, method, path, body);
+  return (await response.json()) as T;
+}
+
+/**
+ * Path of a project resource, e.g. /projects/group%2Fproject/merge_requests
+ */
+function projectPath(client: GitLabClient, path: string): string {
+  return `/projects/${encodeURIComponent(String(client.projectId))}${path}`;
+}
+
+/**
+ * Get all pages of a list endpoint
+ */
+async function paginate<T>(client: GitLabClient, path: string): Promise<T[]> {
+  const separator = path.includes('?') ? '&' : '?';
+  const items: T[] = [];
+  let page = '1';
+
+  while (page) {
+    const response = await request(client, 'GET', `${path}${separator}per_page=100&page=${page}`);
+    items.push(...((await response.json()) as T[]));
+    page = response.headers.get('x-next-page') || '';
+  }
+
+  return items;
+}
+
+/**
+ * Get the id of the user the token belongs to
+ */
+export async function getCurrentUserId(client: Pick<GitLabClient, 'apiUrl' | 'token'>): Promise<number> {
+  const user = await requestJson<GitLabUser>(client, 'GET', '/user');
+  return user.id;
+}
+
+/**
+ * Find the id of a user by their username
+ */
+export async function findUserId(client: Pick<GitLabClient, 'apiUrl' | 'token'>, username: string): Promise<number | null> {
+  const users = await requestJson<GitLabUser[]>(client, 'GET', `/users?username=${encodeURIComponent(username)}`);
+  return users.length > 0 ? users[0].id : null;
+}
+
+/**
+ * Get the access level of a user to the project, including access inherited from groups
+ * Users who aren't members have no access (0).
+ */
+export async function getAccessLevel(client: GitLabClient, userId: number): Promise<number> {
+  try {
+    const member = await requestJson<{ access_level: number }>(
+      client,
+      'GET',
+      projectPath(client, `/members/all/${userId}`)
+    );
+    return member.access_level;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Check whether a user is a member of a group, e.g. "acme/reviewers"
+ */
+export async function isGroupMember(
+  client: Pick<GitLabClient, 'apiUrl' | 'token'>,
+  group: string,
+  userId: number
+): Promise<boolean> {
+  try {
+    await request(client, 'GET', `/groups/${encodeURIComponent(group)}/members/all/${userId}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the commit author information for a GitLab user
+ */
+export function getGitLabAuthor(user: GitLabUser): { authorLogin: string; authorEmail: string } {
+  return {
+    authorLogin: user.username,
+    authorEmail: `${user.id}-${user.username}@users.noreply.gitlab.com`,
+  };
+}
+
+/**
+ * Get the side of the diff a line of a note is on
+ */
+function getSide(line: GitLabLinePosition | null | undefined): DiffSide {
+  return line?.old_line && !line.new_line ? 'LEFT' : 'RIGHT';
+}
+
+/**
+ * Build the comment context from a note on the diff of a merge request
+ */
+export function noteToCommentContext(note: GitLabNote, discussionId: string, mrIid: number): CommentContext {
+  const position = note.position;
+  // Notes on removed lines only have an old line, which is a line of the base (LEFT)
+  const end = position?.line_range?.end || position;
+  const start = position?.line_range?.start || end;
+  const endLine = end?.new_line || end?.old_line || 0;
+  const startLine = start?.new_line || start?.old_line || endLine;
+
+  const { authorLogin, authorEmail } = getGitLabAuthor(note.author);
+
+  return {
+    commentId: note.id,
+    prNumber: mrIid,
+    path: position?.new_path || '',
+    startLine,
+    endLine,
+    originalStartLine: position?.line_range?.start.old_line || position?.old_line || null,
+    originalEndLine: position?.old_line || null,
+    startSide: getSide(start),
+    side: getSide(end),
+    diffHunk: '',
+    body: note.body,
+    commitId: position?.head_sha || '',
+    authorLogin,
+    authorEmail,
+    threadId: discussionId,
+  };
+}
+
+/**
+ * Get merge request details
+ */
+export async function getMergeRequest(client: GitLabClient, mrIid: number): Promise<PullRequestDetails> {
+  const mr = await requestJson<GitLabMergeRequest>(client, 'GET', projectPath(client, `/merge_requests/${mrIid}`));
+
+  return {
+    title: mr.title,
+    baseBranch: mr.target_branch,
+    headBranch: mr.source_branch,
+    headSha: mr.sha,
+    baseSha: mr.diff_refs?.base_sha || mr.target_branch,
+    fromFork: mr.source_project_id !== mr.target_project_id,
+  };
+}
+
+/**
+ * Map the flags of a merge request diff to a file status
+ */
+function toFileStatus(diff: MergeRequestDiff): FileStatus {
+  if (diff.new_file) {
+    return 'added';
+  }
+  if (diff.deleted_file) {
+    return 'removed';
+  }
+  return diff.renamed_file ? 'renamed' : 'modified';
+}
+
+/**
+ * Map a merge request or comparison diff to a changed file
+ */
+function toPrFile(diff: MergeRequestDiff): PrFile {
+  return {
+    path: diff.new_path,
+    status: toFileStatus(diff),
+    previousPath: diff.renamed_file ? diff.old_path : undefined,
+    // Unlike GitHub patches, GitLab diffs end with a newline
+    patch: diff.diff ? diff.diff.replace(/\n$/, '') : null,
+  };
+}
+
+/**
+ * Get all changed files of a merge request with their status and patch
+ */
+export async function listMergeRequestFiles(
+  client: GitLabClient,
+  mrIid: number,
+  cache?: SpliceCache
+): Promise<PrFile[]> {
+  const diffs = await memoize(cache, 'mrDiffs', `${client.projectId}!${mrIid}`, () =>
+    paginate<MergeRequestDiff>(client, projectPath(client, `/merge_requests/${mrIid}/diffs`))
+  );
+
+  return diffs.map(toPrFile);
+}
+
+/**
+ * List the files changed from `base` to `head`, or null if `head` doesn't build on `base`
+ */
+export async function compareCommits(
+  client: GitLabClient,
+  base: string,
+  head: string
+): Promise<CommitComparison | null> {
+  // Commits of `base` missing from `head`; none unless `base` is an ancestor of `head`
+  const reverse = `from=${encodeURIComponent(head)}&to=${encodeURIComponent(base)}`;
+  const missing = await requestJson<{ commits: unknown[] }>(
+    client,
+    'GET',
+    projectPath(client, `/repository/compare?${reverse}`)
+  );
+  if (missing.commits.length > 0) {
+    return null;
+  }
+
+  const query = `from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}&straight=true`;
+  const comparison = await requestJson<{ commits: unknown[]; diffs: MergeRequestDiff[] }>(
+    client,
+    'GET',
+    projectPath(client, `/repository/compare?${query}`)
+  );
+
+  return { commits: comparison.commits.length, files: comparison.diffs.map(toPrFile) };
+}
+
+/**
+ * List the files changed on `head` since its merge base with `base`
+ */
+export async function listChangedFiles(
+  client: GitLabClient,
+  base: string,
+  head: string,
+  cache?: SpliceCache
+): Promise<PrFile[]> {
+  return memoize(cache, 'changedFiles', `${client.projectId}:${base}...${head}`, async () => {
+    const query = `from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`;
+    const comparison = await requestJson<{ diffs: MergeRequestDiff[] }>(
+      client,
+      'GET',
+      projectPath(client, `/repository/compare?${query}`)
+    );
+    return comparison.diffs.map(toPrFile);
+  });
+}
+
+/**
+ * Get the full file content at a specific commit
+ */
+export async function getFileContent(
+  client: GitLabClient,
+  path: string,
+  ref: string,
+  cache?: SpliceCache
+): Promise<string | null> {
+  return memoize(cache, 'contents', `${client.projectId}:${path}@${ref}`, async () => {
+    try {
+      const filePath = `/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+      const response = await request(client, 'GET', projectPath(client, filePath));
+      return await response.text();
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Get the mode of a file at a specific commit from its directory listing
+ */
+export async function getFileMode(
+  client: GitLabClient,
+  path: string,
+  ref: string,
+  cache?: SpliceCache
+): Promise<FileMode | null> {
+  return memoize(cache, 'modes', `${client.projectId}:${path}@${ref}`, async () => {
+    try {
+      const separator = path.lastIndexOf('/');
+      const directory = separator === -1 ? '' : path.substring(0, separator);
+      const treePath = `/repository/tree?path=${encodeURIComponent(directory)}&ref=${encodeURIComponent(ref)}`;
+      const entries = await paginate<{ path: string; mode: string }>(client, projectPath(client, treePath));
+
+      const entry = entries.find(e => e.path === path);
+      if (!entry) {
+        return null;
+      }
+      return entry.mode === '100755' || entry.mode === '120000' ? entry.mode : '100644';
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * List the notes on the diff of a merge request
+ */
+export async function listMergeRequestComments(client: GitLabClient, mrIid: number): Promise<CommentContext[]> {
+  const discussions = await paginate<{ id: string; notes: GitLabNote[] }>(
+    client,
+    projectPath(client, `/merge_requests/${mrIid}/discussions`)
+  );
+
+  return discussions.flatMap(discussion =>
+    discussion.notes.filter(note => note.position).map(note => noteToCommentContext(note, discussion.id, mrIid))
+  );
+}
+
+/**
+ * List open merge requests
+ */
+export async function listOpenMergeRequests(client: GitLabClient): Promise<OpenPullRequest[]> {
+  const mrs = await paginate<GitLabMergeRequest>(client, projectPath(client, '/merge_requests?state=opened'));
+
+  return mrs.map(mr => ({
+    number: mr.iid,
+    url: mr.web_url,
+    body: mr.description || '',
+    headBranch: mr.source_branch,
+    baseBranch: mr.target_branch,
+    fromFork: mr.source_project_id !== mr.target_project_id,
+  }));
+}
+
+/**
+ * Create a merge request
+ */
+export async function createMergeRequest(
+  client: GitLabClient,
+  title: string,
+  description: string,
+  sourceBranch: string,
+  targetBranch: string,
+  draft: boolean = false
+): Promise<{ number: number; url: string }> {
+  const mr = await requestJson<GitLabMergeRequest>(client, 'POST', projectPath(client, '/merge_requests'), {
+    // GitLab marks merge requests as drafts by their title
+    title: draft ? `Draft: ${title}` : title,
+    description,
+    source_branch: sourceBranch,
+    target_branch: targetBranch,
+  });
+
+  return { number: mr.iid, url: mr.web_url };
+}
+
+/**
+ * Update the title and description of a merge request
+ */
+export async function updateMergeRequest(
+  client: GitLabClient,
+  mrIid: number,
+  title: string,
+  description: string
+): Promise<{ number: number; url: string }> {
+  const mr = await requestJson<GitLabMergeRequest>(client, 'PUT', projectPath(client, `/merge_requests/${mrIid}`), {
+    title,
+    description,
+  });
+
+  return { number: mr.iid, url: mr.web_url };
+}
+
+/**
+ * Change the target branch of a merge request
+ */
+export async function updateMergeRequestTarget(client: GitLabClient, mrIid: number, targetBranch: string): Promise<void> {
+  await request(client, 'PUT', projectPath(client, `/merge_requests/${mrIid}`), { target_branch: targetBranch });
+}
+
+/**
+ * Add labels to a merge request
+ */
+export async function addMergeRequestLabels(client: GitLabClient, mrIid: number, labels: string[]): Promise<void> {
+  await request(client, 'PUT', projectPath(client, `/merge_requests/${mrIid}`), {
+    add_labels: labels.join(','),
+  });
+}
+
+/**
+ * Request reviews on a merge request, looking up the users by username
+ */
+export async function requestMergeRequestReviewers(
+  client: GitLabClient,
+  mrIid: number,
+  usernames: string[]
+): Promise<void> {
+  const reviewerIds: number[] = [];
+  for (const username of usernames) {
+    const users = await requestJson<GitLabUser[]>(client, 'GET', `/users?username=${encodeURIComponent(username)}`);
+    if (users.length > 0) {
+      reviewerIds.push(users[0].id);
+    }
+  }
+
+  await request(client, 'PUT', projectPath(client, `/merge_requests/${mrIid}`), { reviewer_ids: reviewerIds });
+}
+
+/**
+ * Reply in a discussion of a merge request
+ */
+export async function replyToDiscussion(
+  client: GitLabClient,
+  mrIid: number,
+  discussionId: string,
+  body: string
+): Promise<void> {
+  await request(client, 'POST', projectPath(client, `/merge_requests/${mrIid}/discussions/${discussionId}/notes`), {
+    body,
+  });
+}
+
+/**
+ * Create a note on a merge request
+ */
+export async function createMergeRequestNote(client: GitLabClient, mrIid: number, body: string): Promise<void> {
+  await request(client, 'POST', projectPath(client, `/merge_requests/${mrIid}/notes`), { body });
+}
+
+/**
+ * Get the SHA of the commit a branch points to
+ */
+async function getBranchSha(client: GitLabClient, branchName: string): Promise<string> {
+  const branch = await requestJson<{ commit: { id: string } }>(
+    client,
+    'GET',
+    projectPath(client, `/repository/branches/${encodeURIComponent(branchName)}`)
+  );
+  return branch.commit.id;
+}
+
+/**
+ * Create a backend that uses the GitLab repository API
+ * Commits are created with the commits API, which takes the changed files as actions.
+ * Symlinks can't be created this way and are written as regular files.
+ */
+export function createGitLabBackend(client: GitLabClient, cache?: SpliceCache): GitBackend {
+  return {
+    getBranchSha: branchName => getBranchSha(client, branchName),
+
+    async branchExists(branchName) {
+      try {
+        await getBranchSha(client, branchName);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async createBranch(branchName, baseBranch) {
+      const query = `?branch=${encodeURIComponent(branchName)}&ref=${encodeURIComponent(baseBranch)}`;
+      await request(client, 'POST', projectPath(client, `/repository/branches${query}`));
+    },
+
+    async deleteBranch(branchName) {
+      await request(client, 'DELETE', projectPath(client, `/repository/branches/${encodeURIComponent(branchName)}`));
+    },
+
+    async isUpToDateWith(branchName, baseBranch) {
+      // The commits of the base that the branch doesn't contain
+      const query = `?from=${encodeURIComponent(branchName)}&to=${encodeURIComponent(baseBranch)}`;
+      const comparison = await requestJson<{ commits: unknown[] }>(
+        client,
+        'GET',
+        projectPath(client, `/repository/compare${query}`)
+      );
+      return comparison.commits.length === 0;
+    },
+
+    async commitChanges(
+      branchName,
+      files,
+      baseBranch,
+      commitMessage,
+      originalPrNumber,
+      authorName,
+      authorEmail,
+      parentSha
+    ) {
+      const baseSha = await getBranchSha(client, baseBranch);
+      const startSha = parentSha || baseSha;
+      const actions: Record<string, unknown>[] = [];
+
+      // The tree is always the base plus the files, so on top of a parent, files changed
+      // by earlier commits of the branch that are no longer selected are restored
+      const updates: FileUpdate[] = [...files];
+      if (parentSha) {
+        const query = `?from=${baseSha}&to=${parentSha}&straight=true`;
+        const comparison = await requestJson<{ diffs: MergeRequestDiff[] }>(
+          client,
+          'GET',
+          projectPath(client, `/repository/compare${query}`)
+        );
+
+        for (const diff of comparison.diffs) {
+          if (!diff.new_file && !updates.some(u => u.path === diff.old_path)) {
+            const content = await getFileContent(client, diff.old_path, baseSha, cache);
+            const mode = (await getFileMode(client, diff.old_path, baseSha, cache)) || '100644';
+            updates.push({ path: diff.old_path, content, mode });
+          }
+          if ((diff.new_file || diff.renamed_file) && !updates.some(u => u.path === diff.new_path)) {
+            updates.push({ path: diff.new_path, content: null, mode: '100644' });
+          }
+        }
+      }
+
+      for (const file of updates) {
+        const exists = (await getFileContent(client, file.path, startSha, cache)) !== null;
+        if (file.content === null) {
+          if (exists) {
+            actions.push({ action: 'delete', file_path: file.path });
+          }
+          continue;
+        }
+
+        actions.push({
+          action: exists ? 'update' : 'create',
+          file_path: file.path,
+          content: file.content,
+          execute_filemode: file.mode === '100755',
+        });
+      }
+
+      // Create the commit with the comment author as the commit author
+      // Without a parent, the branch is reset to a commit on the base
+      const commit = await requestJson<{ id: string }>(client, 'POST', projectPath(client, '/repository/commits'), {
+        branch: branchName,
+        commit_message: `${commitMessage}\n\nSpliced from MR !${originalPrNumber}`,
+        actions,
+        author_name: authorName,
+        author_email: authorEmail,
+        ...(parentSha ? {} : { start_sha: baseSha, force: true }),
+      });
+
+      return commit.id;
+    },
+  };
+}
+
+/**
+ * Create the forge adapter for a GitLab project
+ */
+export function createGitLabAdapter(client: GitLabClient, git: GitBackend, cache?: SpliceCache): ForgeAdapter {
+  return {
+    git,
+    getPullRequest: mrIid => getMergeRequest(client, mrIid),
+    // GitLab returns the patches of all files at once
+    listPullRequestFiles: mrIid => listMergeRequestFiles(client, mrIid, cache),
+    compareCommits: (base, head) => compareCommits(client, base, head),
+    listChangedFiles: (base, head) => listChangedFiles(client, base, head, cache),
+    getFileContent: (path, ref) => getFileContent(client, path, ref, cache),
+    getFileMode: (path, ref) => getFileMode(client, path, ref, cache),
+    listReviewComments: mrIid => listMergeRequestComments(client, mrIid),
+    listOpenPullRequests: () => listOpenMergeRequests(client),
+    createPullRequest: (title, body, head, base, draft) => createMergeRequest(client, title, body, head, base, draft),
+    updatePullRequest: (mrIid, title, body) => updateMergeRequest(client, mrIid, title, body),
+    updatePullRequestBase: (mrIid, base) => updateMergeRequestTarget(client, mrIid, base),
+    addLabels: (mrIid, labels) => addMergeRequestLabels(client, mrIid, labels),
+    requestReviewers: (mrIid, reviewers) => requestMergeRequestReviewers(client, mrIid, reviewers),
+    replyToComment: (comment, message) =>
+      comment.threadId
+        ? replyToDiscussion(client, comment.prNumber, comment.threadId, message)
+        : createMergeRequestNote(client, comment.prNumber, message),
+    createComment: (mrIid, body) => createMergeRequestNote(client, mrIid, body),
+  };
+}
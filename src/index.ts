@@ -1,32 +1,40 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { parseInstruction, generateBranchName, generatePrTitle, generatePrDescription } from './parser';
-import { extractChanges, getFileDiff, extractEntireHunkForLine, extractAllHunks } from './diff';
-import { ExtractedChange } from './types';
+import {
+  parseInstruction,
+  generateReviewBranchName,
+  parseSpliceBotMetadata,
+  findSplicePrOfComment,
+  withDefaults,
+} from './parser';
 import {
   getPrDetails,
-  createBranch,
-  commitChanges,
-  createPullRequest,
-  replyToComment,
-  branchExists,
-  deleteBranch,
-  addLabels,
-  requestReviewers,
-  checkForConflicts,
+  closePullRequest,
   createIssueComment,
+  listCommentsForReview,
+  ReviewComment,
+  toCommentContext,
+  getAuthor,
+  createGitHubAdapter,
+  updatePullRequestBranch,
+  replyToComment,
 } from './github';
-import { CommentContext, SpliceResult } from './types';
+import { createSpliceCache, trackApiUsage, logApiUsage } from './cache';
+import { createApiBackend, createLocalBackend } from './backend';
+import { ForgeAdapter } from './forge';
+import { getPullRequestChanges, findSharedHunks } from './diff';
+import { splice, findGroupTrigger, listSplicePullRequests, retargetStackedSplices, syncSplices } from './splice';
+import { recordEvent, replayEvent } from './relay';
+import { checkSplicePermission, getSplicePolicy } from './policy';
+import { CommentContext, FileRange, SpliceResult } from './types';
 
 /**
- * Metadata embedded in PR descriptions for post-merge callbacks
+ * Committer of commits built on the local checkout
  */
-interface SpliceBotMetadata {
-  'splice-bot': {
-    'original-pr': number;
-    'comment-id': number;
-  };
-}
+const GITHUB_ACTIONS_BOT = {
+  name: 'github-actions[bot]',
+  email: '41898282+github-actions[bot]@users.noreply.github.com',
+};
 
 async function run(): Promise<void> {
   try {
@@ -34,18 +42,60 @@ async function run(): Promise<void> {
     const token = core.getInput('github-token', { required: true });
     const octokit = github.getOctokit(token);
 
+    // Cache API responses for this run and keep track of API usage
+    const cache = createSpliceCache();
+    trackApiUsage(octokit, cache);
+
     // Get event context
-    const context = github.context;
+    let context = github.context;
     const owner = context.repo.owner;
     const repo = context.repo.repo;
 
+    // In the two-stage mode for forks, the first stage only records the event for the second
+    const mode = core.getInput('mode') || 'direct';
+    const eventFile = core.getInput('event-file') || 'splice-bot-event/event.json';
+    if (mode === 'record') {
+      recordEvent(context, eventFile);
+      return;
+    }
+    if (mode === 'replay') {
+      const replayed = await replayEvent(octokit, owner, repo, eventFile);
+      if (!replayed) {
+        return;
+      }
+      context = Object.assign(Object.create(github.context), replayed);
+    } else if (isReviewEventFromFork(context)) {
+      core.warning(
+        'Review events on pull requests from forks only get a read-only token; use the two-stage mode (`mode: record` and `mode: replay`) to splice them.'
+      );
+    }
+
+    // Build commits through the REST API, or on the checkout of the workflow
+    const backend =
+      core.getInput('backend') === 'local'
+        ? createLocalBackend(process.env.GITHUB_WORKSPACE || process.cwd(), { committer: GITHUB_ACTIONS_BOT })
+        : createApiBackend(octokit, owner, repo);
+    const forge = createGitHubAdapter(octokit, owner, repo, backend, cache);
+
     if (context.eventName === 'pull_request_review_comment') {
-      await handleSpliceComment(octokit, owner, repo, context);
+      if (context.payload.action === 'deleted') {
+        await handleRemovedSpliceComment(octokit, owner, repo, context, forge);
+      } else {
+        await handleSpliceComment(octokit, owner, repo, context, forge);
+      }
+    } else if (context.eventName === 'issue_comment') {
+      await handleIssueComment(octokit, owner, repo, context, forge);
+    } else if (context.eventName === 'pull_request_review') {
+      await handleSpliceReview(octokit, owner, repo, context, forge);
+    } else if (context.eventName === 'pull_request' && context.payload.action === 'synchronize') {
+      await handleSourceUpdate(context, forge);
     } else if (context.eventName === 'pull_request') {
-      await handleMergeCallback(octokit, owner, repo, context);
+      await handleMergeCallback(octokit, owner, repo, context, forge);
     } else {
       core.setFailed(`Invalid event type: ${context.eventName}`);
     }
+
+    logApiUsage(cache);
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error.message);
@@ -55,6 +105,48 @@ async function run(): Promise<void> {
   }
 }
 
+/**
+ * Whether the event is a review (comment) on a pull request from a fork
+ */
+function isReviewEventFromFork(context: typeof github.context): boolean {
+  const pullRequest = context.payload.pull_request;
+  const reviewEvent = ['pull_request_review_comment', 'pull_request_review'].includes(context.eventName);
+  return reviewEvent && !!pullRequest && pullRequest.head?.repo?.full_name !== pullRequest.base?.repo?.full_name;
+}
+
+/**
+ * Check the splice policy for the author of a command, replying with the reason if they are refused
+ */
+async function authorize(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  login: string,
+  prAuthor: string,
+  reply: (message: string) => Promise<void>
+): Promise<boolean> {
+  const rejection = await checkSplicePermission(octokit, owner, repo, getSplicePolicy(), login, prAuthor);
+  if (rejection) {
+    core.info(`Refusing splice-bot command by @${login}: ${rejection}`);
+    await reply(`🚫 **Splice Bot**\n\n${rejection}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a user passes the splice policy, for comments of a group written by someone else
+ */
+function policyAllows(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  prAuthor: string
+): (login: string) => Promise<boolean> {
+  const policy = getSplicePolicy();
+  return async login => !(await checkSplicePermission(octokit, owner, repo, policy, login, prAuthor));
+}
+
 /**
  * Handle splice-bot comment events
  */
@@ -62,7 +154,8 @@ async function handleSpliceComment(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
-  context: typeof github.context
+  context: typeof github.context,
+  forge: ForgeAdapter
 ): Promise<void> {
   const payload = context.payload;
   const comment = payload.comment;
@@ -76,292 +169,402 @@ async function handleSpliceComment(
   // Parse the instruction from the comment
   const instruction = parseInstruction(comment.body);
   if (!instruction) {
+    // An edit that removed the command is handled like a deletion
+    if (payload.action === 'edited' && parseInstruction(payload.changes?.body?.from || '')) {
+      await handleRemovedSpliceComment(octokit, owner, repo, context, forge);
+      return;
+    }
     core.info('Comment does not contain splice-bot command');
     return;
   }
 
-  core.info(`Processing splice-bot command from comment ${comment.id}`);
+  const reply = (message: string) => replyToComment(octokit, owner, repo, pullRequest.number, comment.id, message);
+  if (!(await authorize(octokit, owner, repo, comment.user?.login || '', pullRequest.user?.login || '', reply))) {
+    return;
+  }
 
-  // Extract comment context
-  // For multi-line comments, start_line is the first line and line is the last
-  // For single-line comments, start_line is null
-  const endLine = comment.line || comment.original_line;
-  const startLine = comment.start_line || endLine;
+  if (payload.action === 'edited') {
+    core.info(`Re-deriving splice from edited comment ${comment.id}`);
+  } else {
+    core.info(`Processing splice-bot command from comment ${comment.id}`);
+  }
 
-  // Get author information from the comment
-  const authorLogin = comment.user?.login || 'github-actions[bot]';
-  const authorEmail = comment.user?.id
-    ? `${comment.user.id}+${authorLogin}@users.noreply.github.com`
-    : 'github-actions[bot]@users.noreply.github.com';
+  const commentContext = toCommentContext(comment as ReviewComment, pullRequest.number);
 
-  const commentContext: CommentContext = {
-    commentId: comment.id,
-    prNumber: pullRequest.number,
-    path: comment.path,
-    startLine,
-    endLine,
-    originalStartLine: comment.original_start_line || comment.original_line,
-    originalEndLine: comment.original_line,
-    diffHunk: comment.diff_hunk,
-    body: comment.body,
-    commitId: comment.commit_id,
-    authorLogin,
-    authorEmail,
+  // Run the splice operation
+  const result = await splice(forge, commentContext, instruction, {
+    isAuthorized: policyAllows(octokit, owner, repo, pullRequest.user?.login || ''),
+  });
+  reportResult(result);
+}
+
+/**
+ * Handle submitted reviews whose body contains a splice-bot command
+ * All inline comments of the review are spliced into one PR
+ */
+async function handleSpliceReview(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  context: typeof github.context,
+  forge: ForgeAdapter
+): Promise<void> {
+  const payload = context.payload;
+  const review = payload.review;
+  const pullRequest = payload.pull_request;
+
+  if (!review || !pullRequest) {
+    core.setFailed('Missing review or pull request in payload');
+    return;
+  }
+
+  if (payload.action !== 'submitted') {
+    core.info(`Ignoring review ${payload.action} event`);
+    return;
+  }
+
+  const instruction = parseInstruction(review.body || '');
+  if (!instruction) {
+    core.info('Review does not contain splice-bot command');
+    return;
+  }
+
+  const prNumber = pullRequest.number;
+  core.info(`Processing splice-bot command from review ${review.id}`);
+
+  const reply = async (message: string) => {
+    await createIssueComment(octokit, owner, repo, prNumber, message);
   };
 
-  // Run the splice operation
-  const result = await splice(octokit, owner, repo, commentContext, instruction);
+  if (!(await authorize(octokit, owner, repo, review.user?.login || '', pullRequest.user?.login || '', reply))) {
+    return;
+  }
 
-  if (result.success) {
-    core.info(`Successfully created PR: ${result.prUrl}`);
-    core.setOutput('pr-url', result.prUrl);
-    core.setOutput('branch-name', result.branchName);
-  } else {
-    core.setFailed(result.error || 'Unknown error');
+  // Replies to existing threads don't select any lines
+  const comments = (await listCommentsForReview(octokit, owner, repo, prNumber, review.id)).filter(
+    c => !c.in_reply_to_id
+  );
+  if (comments.length === 0) {
+    const errorMessage = 'The review has no inline comments to splice.';
+    await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+    core.setFailed(errorMessage);
+    return;
   }
+
+  // The options of the review apply to each inline comment, which may still set its own
+  const selections = comments.map(comment => ({
+    context: toCommentContext(comment, prNumber),
+    instruction: withDefaults(parseInstruction(comment.body) || {}, instruction),
+  }));
+
+  const reviewContext = { ...selections[0].context, body: review.body };
+  const result = await splice(forge, reviewContext, instruction, {
+    selections,
+    branchName: generateReviewBranchName(prNumber, review.id),
+    spliceId: `review-${review.id}`,
+    reviewId: review.id,
+    reply,
+  });
+  reportResult(result);
 }
 
 /**
- * Handle merge callback when a spliced PR is merged
+ * Handle splice-bot commands in PR conversation comments
+ * Lines are selected with explicit specifiers, e.g. `splice-bot src/a.ts:10-20 src/b.ts:5`
  */
-async function handleMergeCallback(
+async function handleIssueComment(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
-  context: typeof github.context
+  context: typeof github.context,
+  forge: ForgeAdapter
 ): Promise<void> {
   const payload = context.payload;
-  const pr = payload.pull_request;
+  const comment = payload.comment;
+  const issue = payload.issue;
 
-  if (!pr) {
-    core.setFailed('Missing pull request in payload');
+  if (!comment || !issue) {
+    core.setFailed('Missing comment or issue in payload');
     return;
   }
 
-  // Verify this is a merge event
-  if (payload.action !== 'closed' || !pr.merged) {
-    core.info('PR was closed but not merged, skipping');
+  if (!issue.pull_request) {
+    core.info('Comment is not on a pull request, skipping');
     return;
   }
 
-  // Parse metadata from PR description
-  const metadata = parseSpliceBotMetadata(pr.body || '');
-  if (!metadata) {
-    core.info('Not a splice-bot PR (no metadata found), skipping');
+  // Only comments that start with the command, so mentioning the bot in a discussion is harmless
+  const body: string = comment.body || '';
+  const instruction = /^\s*splice-bot\b/i.test(body) ? parseInstruction(body) : null;
+  if (!instruction) {
+    core.info('Comment does not contain splice-bot command');
     return;
   }
 
-  const originalPrNumber = metadata['splice-bot']['original-pr'];
-  const baseBranch = pr.base.ref;
+  const prNumber = issue.number;
+  core.info(`Processing splice-bot command from PR comment ${comment.id}`);
 
-  core.info(`Spliced PR #${pr.number} merged into ${baseBranch}, notifying original PR #${originalPrNumber}`);
+  const reply = async (message: string) => {
+    await createIssueComment(octokit, owner, repo, prNumber, message);
+  };
 
-  // Post notification comment on original PR
-  const message = `🔀 Spliced PR #${pr.number} has been merged into \`${baseBranch}\`.\n\nYou may want to merge \`${baseBranch}\` into this PR to incorporate those changes and avoid duplicates.`;
+  if (!(await authorize(octokit, owner, repo, comment.user?.login || '', issue.user?.login || '', reply))) {
+    return;
+  }
 
-  try {
-    await createIssueComment(octokit, owner, repo, originalPrNumber, message);
-    core.info(`Posted notification to PR #${originalPrNumber}`);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    core.warning(`Failed to post notification to PR #${originalPrNumber}: ${errorMessage}`);
+  if (!instruction.ranges && !instruction.match && !instruction.paths) {
+    const errorMessage =
+      'Please specify the lines to splice, e.g. `splice-bot src/a.ts:10-20 src/b.ts:5 title:"..."`, or a pattern, e.g. `splice-bot match:"/oldName/" paths:"src/**/*.ts"`.';
+    await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+    core.setFailed(errorMessage);
+    return;
   }
+
+  const { authorLogin, authorEmail } = getAuthor(comment.user);
+  const prDetails = await getPrDetails(octokit, owner, repo, prNumber);
+
+  const toContext = (range: FileRange): CommentContext => ({
+    commentId: comment.id,
+    prNumber,
+    path: range.path,
+    startLine: range.startLine,
+    endLine: range.endLine,
+    originalStartLine: null,
+    originalEndLine: null,
+    diffHunk: '',
+    body,
+    commitId: prDetails.headSha,
+    authorLogin,
+    authorEmail,
+  });
+
+  // Patterns select hunks from the whole PR
+  const ranges = instruction.ranges || [{ path: '', startLine: 0, endLine: 0 }];
+  const selections = ranges.map(range => ({ context: toContext(range), instruction }));
+
+  const result = await splice(forge, selections[0].context, instruction, {
+    selections,
+    commentKind: 'issue',
+    reply,
+  });
+  reportResult(result);
 }
 
 /**
- * Parse splice-bot metadata from PR description
+ * Report the result of a splice as action outputs
  */
-function parseSpliceBotMetadata(body: string): SpliceBotMetadata | null {
-  // Look for the HTML comment with JSON metadata
-  const match = body.match(/<!--\s*(\{"splice-bot":.+?\})\s*-->/);
-  if (!match) {
-    return null;
-  }
-
-  try {
-    const metadata = JSON.parse(match[1]) as SpliceBotMetadata;
-    if (metadata['splice-bot'] && typeof metadata['splice-bot']['original-pr'] === 'number') {
-      return metadata;
-    }
-    return null;
-  } catch {
-    return null;
+function reportResult(result: SpliceResult): void {
+  if (result.success && result.duplicateOf) {
+    core.info(`Selection already spliced in PR: ${result.prUrl}`);
+    core.setOutput('pr-url', result.prUrl);
+    core.setOutput('branch-name', result.branchName);
+  } else if (result.success) {
+    core.info(`Successfully ${result.updated ? 'updated' : 'created'} PR: ${result.prUrl}`);
+    core.setOutput('pr-url', result.prUrl);
+    core.setOutput('branch-name', result.branchName);
+  } else {
+    core.setFailed(result.error || 'Unknown error');
   }
 }
 
-async function splice(
+/**
+ * Handle a splice-bot comment that was deleted or edited to no longer contain the command
+ * A remaining group is spliced again without the comment; otherwise the spliced PR is
+ * closed (with the close-on-delete input) or its authors are told it may be closed.
+ */
+async function handleRemovedSpliceComment(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
-  commentContext: CommentContext,
-  instruction: ReturnType<typeof parseInstruction>
-): Promise<SpliceResult> {
-  const { prNumber, path, startLine, endLine, commentId, authorLogin, authorEmail } = commentContext;
-
-  try {
-    // Get PR details
-    core.info(`Getting PR #${prNumber} details...`);
-    const prDetails = await getPrDetails(octokit, owner, repo, prNumber);
-
-    // Determine the base branch
-    const baseBranch = instruction?.base || prDetails.baseBranch;
+  context: typeof github.context,
+  forge: ForgeAdapter
+): Promise<void> {
+  const payload = context.payload;
+  const comment = payload.comment;
+  const pullRequest = payload.pull_request;
 
-    // Generate or use custom branch name
-    const branchName = instruction?.branch || generateBranchName(prNumber, commentId);
+  if (!comment || !pullRequest) {
+    core.setFailed('Missing comment or pull request in payload');
+    return;
+  }
 
-    // Check if branch already exists
-    if (await branchExists(octokit, owner, repo, branchName)) {
-      core.info(`Branch ${branchName} already exists, deleting...`);
-      await deleteBranch(octokit, owner, repo, branchName);
-    }
+  const previousBody = payload.action === 'edited' ? payload.changes?.body?.from || '' : comment.body;
+  const previousInstruction = parseInstruction(previousBody);
+  if (!previousInstruction) {
+    core.info('Removed comment did not contain splice-bot command');
+    return;
+  }
 
-    // Extract the changes based on mode
-    let changes: ExtractedChange | null = null;
-    let extractionMode = 'lines';
-    const lineRange = startLine === endLine ? `line ${endLine}` : `lines ${startLine}-${endLine}`;
-
-    if (instruction?.entireFile) {
-      extractionMode = 'entire file';
-      core.info(`Extracting entire file changes from ${path}...`);
-      const patch = await getFileDiff(octokit, owner, repo, prNumber, path);
-      if (patch) {
-        const hunks = extractAllHunks(patch);
-        if (hunks.length > 0) {
-          changes = { path, hunks };
-        }
-      }
-    } else if (instruction?.entireHunk) {
-      extractionMode = 'entire hunk';
-      core.info(`Extracting entire hunk from ${path} containing ${lineRange}...`);
-      const patch = await getFileDiff(octokit, owner, repo, prNumber, path);
-      if (patch) {
-        const hunk = extractEntireHunkForLine(patch, endLine);
-        if (hunk) {
-          changes = { path, hunks: [hunk] };
-        }
-      }
-    } else {
-      core.info(`Extracting changes from ${path} at ${lineRange}...`);
-      changes = await extractChanges(octokit, owner, repo, prNumber, path, startLine, endLine);
-    }
+  // Only users who may splice can undo a splice by removing its comment
+  const login = comment.user?.login || '';
+  const prAuthor = pullRequest.user?.login || '';
+  const rejection = await checkSplicePermission(octokit, owner, repo, getSplicePolicy(), login, prAuthor);
+  if (rejection) {
+    core.info(`Ignoring removed splice-bot command by @${login}: ${rejection}`);
+    return;
+  }
 
-    if (!changes) {
-      const errorMessage = `Could not extract changes from ${path} (${extractionMode}). The file may not have changes at this location.`;
-      await replyToComment(
-        octokit,
-        owner,
-        repo,
-        prNumber,
-        commentId,
-        `❌ **Splice Bot Error**\n\n${errorMessage}`
-      );
-      return { success: false, error: errorMessage };
+  const prNumber = pullRequest.number;
+  const group = previousInstruction.group;
+
+  // Splice the rest of the group again, triggered by its most recent comment by a user who may splice
+  if (group) {
+    const isAuthorized = policyAllows(octokit, owner, repo, prAuthor);
+    const trigger = await findGroupTrigger(forge, prNumber, comment.id, group, isAuthorized);
+    if (trigger) {
+      core.info(`Comment ${comment.id} left group "${group}", re-splicing from comment ${trigger.context.commentId}`);
+      reportResult(await splice(forge, trigger.context, trigger.instruction, { isAuthorized }));
+      return;
     }
+  }
 
-    // Create the new branch
-    core.info(`Creating branch ${branchName}...`);
-    await createBranch(octokit, owner, repo, branchName, baseBranch);
-
-    // Generate PR title
-    const prTitle = instruction?.title || generatePrTitle(path);
+  const splicePr = findSplicePrOfComment(await listSplicePullRequests(forge), prNumber, comment.id);
+  if (!splicePr) {
+    core.info(`No open spliced PR found for comment ${comment.id}`);
+    return;
+  }
 
-    // Commit the changes
-    core.info('Committing changes...');
-    await commitChanges(
+  if (core.getBooleanInput('close-on-delete')) {
+    core.info(`Closing spliced PR #${splicePr.number} and deleting ${splicePr.headBranch}`);
+    await closePullRequest(octokit, owner, repo, splicePr.number);
+    await forge.git.deleteBranch(splicePr.headBranch);
+    await createIssueComment(
       octokit,
       owner,
       repo,
-      branchName,
-      changes,
-      baseBranch,
-      prTitle,
-      prNumber,
-      authorLogin,
-      authorEmail
+      splicePr.number,
+      `🗑️ The splice-bot comment on #${prNumber} that created this PR was removed, so this PR was closed.`
     );
-
-    // Check for potential conflicts
-    core.info('Checking for potential conflicts...');
-    const hasConflicts = await checkForConflicts(
+  } else {
+    core.info(`Suggesting to close spliced PR #${splicePr.number}`);
+    await createIssueComment(
       octokit,
       owner,
       repo,
-      path,
-      baseBranch,
-      prDetails.headBranch
+      splicePr.number,
+      `ℹ️ The splice-bot comment on #${prNumber} that created this PR was removed.\n\nIf this PR is no longer needed, you may close it and delete the \`${splicePr.headBranch}\` branch.`
     );
-    if (hasConflicts) {
-      core.warning(`File ${path} may have been modified in base branch - conflicts possible`);
-    }
+  }
+}
 
-    // Generate PR description
-    const prDescription = generatePrDescription({
-      originalPrNumber: prNumber,
-      originalPrTitle: prDetails.title,
-      path,
-      startLine,
-      endLine,
-      commentId,
-      authorLogin,
-      customDescription: instruction?.description,
-    });
-
-    // Create the PR
-    core.info('Creating pull request...');
-    const newPr = await createPullRequest(
-      octokit,
-      owner,
-      repo,
-      prTitle,
-      prDescription,
-      branchName,
-      baseBranch,
-      instruction?.draft || false
-    );
+/**
+ * Handle new commits pushed to a PR, bringing its spliced PRs up to date
+ */
+async function handleSourceUpdate(context: typeof github.context, forge: ForgeAdapter): Promise<void> {
+  const pr = context.payload.pull_request;
 
-    // Add labels if specified
-    if (instruction?.labels && instruction.labels.length > 0) {
-      core.info(`Adding labels: ${instruction.labels.join(', ')}`);
-      await addLabels(octokit, owner, repo, newPr.number, instruction.labels);
-    }
+  if (!pr) {
+    core.setFailed('Missing pull request in payload');
+    return;
+  }
 
-    // Request reviewers if specified
-    if (instruction?.reviewers && instruction.reviewers.length > 0) {
-      core.info(`Requesting reviewers: ${instruction.reviewers.join(', ')}`);
-      await requestReviewers(octokit, owner, repo, newPr.number, instruction.reviewers);
-    }
+  // Commits that follow the changes are authored by whoever pushed them
+  const sender = context.payload.sender;
+  const pusher = getAuthor(sender ? { login: sender.login, id: sender.id } : null);
 
-    // Reply to the original comment
-    let successMessage = `✅ **Splice Bot** created:\n [#${newPr.number} - ${prTitle}](${newPr.url})`;
-    if (hasConflicts) {
-      successMessage += `\n\n⚠️ **Warning**: The file \`${path}\` may have been modified in the base branch. Please check for conflicts.`;
-    }
-    await replyToComment(octokit, owner, repo, prNumber, commentId, successMessage);
+  core.info(`PR #${pr.number} was updated to ${pr.head.sha}, checking its spliced PRs`);
+  await syncSplices(forge, pr.number, pr.head.sha, pusher);
+}
 
-    return {
-      success: true,
-      prUrl: newPr.url,
-      branchName,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    core.error(`Splice operation failed: ${errorMessage}`);
-
-    // Try to reply with error
-    try {
-      await replyToComment(
-        octokit,
-        owner,
-        repo,
-        prNumber,
-        commentId,
-        `❌ **Splice Bot Error**\n\n${errorMessage}\n\nPlease check the action logs for more details.`
-      );
-    } catch (replyError) {
-      core.warning(`Could not reply to comment: ${replyError}`);
-    }
+/**
+ * Merge the base into the original PR of a merged `--auto-sync` splice, so the spliced changes
+ * leave its diff, and describe the outcome
+ * If that isn't possible, the message lists the hunks of the original PR that now duplicate the base.
+ */
+async function syncOriginalPr(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  forge: ForgeAdapter,
+  splicePrNumber: number,
+  originalPrNumber: number,
+  baseBranch: string
+): Promise<string> {
+  const original = await forge.getPullRequest(originalPrNumber);
+
+  let reason: string | null;
+  if (original.fromFork) {
+    reason = 'the PR branch is in a fork';
+  } else if (original.baseBranch !== baseBranch) {
+    reason = `this PR targets \`${original.baseBranch}\``;
+  } else {
+    core.info(`Merging ${baseBranch} into ${original.headBranch}...`);
+    reason = await updatePullRequestBranch(octokit, owner, repo, originalPrNumber, original.headSha);
+    reason = reason && reason.replace(/\.$/, '');
+  }
+
+  if (!reason) {
+    return `🔀 Spliced PR #${splicePrNumber} has been merged into \`${baseBranch}\`, so \`${baseBranch}\` was merged into this PR and the spliced changes no longer show in its diff.`;
+  }
+
+  const duplicates = findSharedHunks(
+    await getPullRequestChanges(forge, originalPrNumber),
+    await getPullRequestChanges(forge, splicePrNumber)
+  );
+  const hunks = duplicates.map(({ path, hunk }) => `- \`${path}\` (\`${hunk.content.split('\n')[0]}\`)`);
+
+  return [
+    `🔀 Spliced PR #${splicePrNumber} has been merged into \`${baseBranch}\`, but \`${baseBranch}\` could not be merged into this PR automatically: ${reason}.`,
+    ...(hunks.length > 0 ? ['', `These hunks now duplicate changes in \`${baseBranch}\`:`, '', ...hunks] : []),
+  ].join('\n');
+}
+
+/**
+ * Handle merge callback when a spliced PR is merged
+ * Stacked splices are retargeted for any merged PR, since `after:` may name any branch
+ */
+async function handleMergeCallback(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  context: typeof github.context,
+  forge: ForgeAdapter
+): Promise<void> {
+  const payload = context.payload;
+  const pr = payload.pull_request;
+
+  if (!pr) {
+    core.setFailed('Missing pull request in payload');
+    return;
+  }
+
+  // Verify this is a merge event
+  if (payload.action !== 'closed' || !pr.merged) {
+    core.info('PR was closed but not merged, skipping');
+    return;
+  }
+
+  // Spliced PRs stacked on the merged branch now target its base
+  // A branch of a fork only shares its name with the branch of this repository
+  if (pr.head.repo?.full_name === pr.base.repo.full_name) {
+    await retargetStackedSplices(forge, pr.head.ref, pr.base.ref);
+  }
+
+  // Parse metadata from PR description
+  const metadata = parseSpliceBotMetadata(pr.body || '');
+  if (!metadata) {
+    core.info('Not a splice-bot PR (no metadata found), skipping');
+    return;
+  }
+
+  const originalPrNumber = metadata['splice-bot']['original-pr'];
+  const baseBranch = pr.base.ref;
+
+  core.info(`Spliced PR #${pr.number} merged into ${baseBranch}, notifying original PR #${originalPrNumber}`);
+
+  let message = `🔀 Spliced PR #${pr.number} has been merged into \`${baseBranch}\`.\n\nYou may want to merge \`${baseBranch}\` into this PR to incorporate those changes and avoid duplicates.`;
+  if (metadata['splice-bot']['auto-sync']) {
+    message = await syncOriginalPr(octokit, owner, repo, forge, pr.number, originalPrNumber, baseBranch);
+  }
+
+  // Post notification comment on original PR
 
-    return { success: false, error: errorMessage };
+  try {
+    await createIssueComment(octokit, owner, repo, originalPrNumber, message);
+    core.info(`Posted notification to PR #${originalPrNumber}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    core.warning(`Failed to post notification to PR #${originalPrNumber}: ${errorMessage}`);
   }
 }
 
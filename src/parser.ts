@@ -1,4 +1,66 @@
-import { SpliceInstruction } from './types';
+import { createHash } from 'crypto';
+import {
+  SpliceInstruction,
+  ExtractMode,
+  LineExclusion,
+  LineSelection,
+  FileConflict,
+  FileRange,
+  SpliceBotMetadata,
+  SplicePullRequest,
+} from './types';
+
+/**
+ * Option keys of the structured format, which are never file paths
+ */
+const OPTION_KEYS = [
+  'title',
+  'group',
+  'base',
+  'description',
+  'labels',
+  'reviewers',
+  'branch',
+  'stack',
+  'after',
+  'match',
+  'paths',
+  'exclude',
+];
+
+/**
+ * The instruction flag of each extraction mode, from the largest unit to the smallest
+ */
+const EXTRACT_FLAGS: Record<ExtractMode, 'entireFile' | 'entireHunk' | 'entireFunction' | 'entireBlock'> = {
+  file: 'entireFile',
+  hunk: 'entireHunk',
+  function: 'entireFunction',
+  block: 'entireBlock',
+};
+
+/**
+ * Parse file and line range specifiers such as src/a.ts:10-20 or src/b.ts:5
+ */
+function parseFileRanges(args: string): FileRange[] {
+  // Ignore anything inside quoted values, e.g. title:"Fix a.ts:10"
+  const unquoted = args.replace(/"[^"]*"/g, '""');
+  const rangePattern = /(?:^|\s)([^\s:"]+):(\d+)(?:-(\d+))?(?=\s|$)/g;
+  const ranges: FileRange[] = [];
+  let rangeMatch;
+
+  while ((rangeMatch = rangePattern.exec(unquoted)) !== null) {
+    const path = rangeMatch[1];
+    if (OPTION_KEYS.includes(path.toLowerCase())) {
+      continue;
+    }
+
+    const first = parseInt(rangeMatch[2], 10);
+    const last = rangeMatch[3] ? parseInt(rangeMatch[3], 10) : first;
+    ranges.push({ path, startLine: Math.min(first, last), endLine: Math.max(first, last) });
+  }
+
+  return ranges;
+}
 
 /**
  * Parse splice-bot command from comment body
@@ -6,6 +68,8 @@ import { SpliceInstruction } from './types';
  * - splice-bot
  * - splice-bot "PR title"
  * - splice-bot title:"PR title" base:branch group:name
+ * - splice-bot src/a.ts:10-20 src/b.ts:5 title:"PR title"
+ * - splice-bot stack:#456 (or after:branch) to stack on an earlier splice
  */
 export function parseInstruction(body: string): SpliceInstruction | null {
   const match = body.match(/splice-bot\s*(.*)/i);
@@ -37,9 +101,30 @@ export function parseInstruction(body: string): SpliceInstruction | null {
   if (/--entire-file\b/i.test(args)) {
     instruction.entireFile = true;
   }
+  if (/--entire-function\b/i.test(args)) {
+    instruction.entireFunction = true;
+  }
+  if (/--entire-block\b/i.test(args)) {
+    instruction.entireBlock = true;
+  }
+  if (/--update\b/i.test(args)) {
+    instruction.update = true;
+  }
+  if (/--auto-sync\b/i.test(args)) {
+    instruction.autoSync = true;
+  }
+  if (/--move\b/i.test(args)) {
+    instruction.move = true;
+  }
+
+  // Explicit file and line ranges
+  const ranges = parseFileRanges(args);
+  if (ranges.length > 0) {
+    instruction.ranges = ranges;
+  }
 
   // Structured format: key:value or key:"value with spaces"
-  const keyValuePattern = /(\w+):(?:"([^"]+)"|(\S+))/g;
+  const keyValuePattern = /(?:^|\s)(\w+):(?:"([^"]+)"|(\S+))/g;
   let keyMatch;
 
   while ((keyMatch = keyValuePattern.exec(args)) !== null) {
@@ -69,12 +154,103 @@ export function parseInstruction(body: string): SpliceInstruction | null {
       case 'branch':
         instruction.branch = value;
         break;
+      case 'stack': {
+        const stack = parseInt(value.replace(/^#/, ''), 10);
+        if (!isNaN(stack)) {
+          instruction.stack = stack;
+        }
+        break;
+      }
+      case 'after':
+        instruction.after = value;
+        break;
+      case 'match':
+        instruction.match = value;
+        break;
+      case 'paths':
+        instruction.paths = value
+          .split(',')
+          .map(p => p.trim())
+          .filter(p => p.length > 0);
+        break;
+      case 'exclude':
+        instruction.exclude = parseExclusion(value);
+        break;
     }
   }
 
   return instruction;
 }
 
+/**
+ * Parse the pattern of a `match` option: `/regex/flags`, or text that is matched literally
+ * Returns null for an invalid regular expression.
+ */
+export function parseMatchPattern(text: string): RegExp | null {
+  const regex = text.match(/^\/(.+)\/([imsu]*)$/);
+  try {
+    return regex ? new RegExp(regex[1], regex[2]) : new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the value of an `exclude` option: comma-separated line numbers and ranges, and patterns
+ * as in `match`, e.g. 22,30-31,/console\.log/
+ */
+export function parseExclusion(value: string): LineExclusion {
+  const exclusion: LineExclusion = { lines: [], patterns: [] };
+  // Regular expressions may contain commas
+  for (const item of value.match(/\s*\/(?:\\.|[^/\\])+\/[imsu]*|[^,]+/g) || []) {
+    const range = parseLineRange(item);
+    if (range) {
+      exclusion.lines.push(range);
+    } else if (item.trim()) {
+      exclusion.patterns.push(item.trim());
+    }
+  }
+  return exclusion;
+}
+
+/**
+ * Format excluded lines in the syntax of the `exclude` option
+ */
+export function formatExclusion(exclusion: LineExclusion): string {
+  const lines = exclusion.lines.map(({ startLine, endLine }) =>
+    startLine === endLine ? `${startLine}` : `${startLine}-${endLine}`
+  );
+  return [...lines, ...exclusion.patterns].join(',');
+}
+
+/**
+ * Check a file path against glob patterns, where ** matches any directories and * and ? match
+ * within a directory; patterns without a slash match the file name, e.g. *.ts
+ */
+export function matchesPath(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const regex = pattern
+      .split(/(\*\*\/|\*\*|\*|\?)/)
+      .map(part => {
+        switch (part) {
+          case '**/':
+            return '(?:.*/)?';
+          case '**':
+            return '.*';
+          case '*':
+            return '[^/]*';
+          case '?':
+            return '[^/]';
+          default:
+            return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+      })
+      .join('');
+    const target = pattern.includes('/') ? path : path.substring(path.lastIndexOf('/') + 1);
+    return new RegExp(`^${regex}$`).test(target);
+  });
+}
+
 /**
  * Generate a branch name for the spliced PR
  */
@@ -82,23 +258,127 @@ export function generateBranchName(prNumber: number, commentId: number): string
   return `splice/pr-${prNumber}-${commentId}`;
 }
 
+/**
+ * Turn a name into a part of a branch name, e.g. "My Refactor!" into "my-refactor"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/^[-.]+|[-.]+$/g, '');
+}
+
+/**
+ * Generate a branch name shared by all comments of a group
+ */
+export function generateGroupBranchName(prNumber: number, group: string): string {
+  return `splice/pr-${prNumber}-${slugify(group) || 'group'}`;
+}
+
+/**
+ * Generate a branch name for a splice requested from the command line
+ * The name is derived from the ranges and pattern, so splicing the same selection again updates the same branch
+ */
+export function generateCliBranchName(prNumber: number, ranges: FileRange[], pattern?: string): string {
+  return `splice/pr-${prNumber}-${generateCliSpliceId(ranges, pattern)}`;
+}
+
+/**
+ * Generate the id of a splice requested from the command line, e.g. for the branch template
+ */
+export function generateCliSpliceId(ranges: FileRange[], pattern?: string): string {
+  const key = [...ranges.map(r => `${r.path}:${r.startLine}-${r.endLine}`), ...(pattern ? [pattern] : [])].join(' ');
+  return `cli-${createHash('sha1').update(key).digest('hex').substring(0, 8)}`;
+}
+
+/**
+ * Parse a line range such as "10-20" or "10"
+ */
+export function parseLineRange(text: string): { startLine: number; endLine: number } | null {
+  const match = text.trim().match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const first = parseInt(match[1], 10);
+  const last = match[2] ? parseInt(match[2], 10) : first;
+  return { startLine: Math.min(first, last), endLine: Math.max(first, last) };
+}
+
+/**
+ * Generate a branch name for a splice requested by a whole review
+ */
+export function generateReviewBranchName(prNumber: number, reviewId: number): string {
+  return `splice/pr-${prNumber}-review-${reviewId}`;
+}
+
 /**
  * Generate a PR title if not provided
  */
-export function generatePrTitle(path: string): string {
+export function generatePrTitle(paths: string[]): string {
+  if (paths.length > 1) {
+    return `[Splice] Extract changes from ${paths.length} files`;
+  }
+  const path = paths[0] || '';
   const fileName = path.split('/').pop() || path;
   return `[Splice] Extract changes from ${fileName}`;
 }
 
+/**
+ * Get the extraction mode of an instruction, undefined for the selected lines
+ * When several modes are given, the first of entire file, hunk, function and block is used.
+ */
+export function getExtractMode(instruction: SpliceInstruction): ExtractMode | undefined {
+  return (Object.keys(EXTRACT_FLAGS) as ExtractMode[]).find(mode => instruction[EXTRACT_FLAGS[mode]]);
+}
+
+/**
+ * Set the extraction mode of an instruction
+ */
+export function withExtractMode(instruction: SpliceInstruction, mode: ExtractMode | undefined): SpliceInstruction {
+  return mode ? { ...instruction, [EXTRACT_FLAGS[mode]]: true } : instruction;
+}
+
+/**
+ * Fill in the options an instruction doesn't set from another one, e.g. of the review a comment belongs to
+ * The extraction mode of the instruction replaces that of the defaults.
+ */
+export function withDefaults(instruction: SpliceInstruction, defaults: SpliceInstruction): SpliceInstruction {
+  const merged: SpliceInstruction = { ...defaults, ...instruction };
+  for (const flag of Object.values(EXTRACT_FLAGS)) {
+    delete merged[flag];
+  }
+  return withExtractMode(merged, getExtractMode(instruction) || getExtractMode(defaults));
+}
+
+/**
+ * Format a line range for display, e.g. "line 5" or "lines 5-10"
+ */
+export function formatLineRange(startLine: number, endLine: number): string {
+  return startLine === endLine ? `line ${endLine}` : `lines ${startLine}-${endLine}`;
+}
+
 export interface PrDescriptionOptions {
   originalPrNumber: number;
   originalPrTitle: string;
-  path: string;
-  startLine: number;
-  endLine: number;
+  selections: LineSelection[];
   commentId: number;
   authorLogin: string;
+  group?: string;
+  reviewId?: number;
+  // Whether the comment ids refer to review comments (default), PR conversation comments or GitLab notes
+  commentKind?: 'review' | 'issue' | 'note';
+  // Branch (and PR) of the splice this one is stacked on
+  stackedOn?: { branch: string; prNumber?: number };
   customDescription?: string;
+  // Text from the repository configuration, after the custom description
+  footer?: string;
+  autoSync?: boolean;
+  // The changes were removed from the original PR
+  moved?: boolean;
+  // Head commit of the original PR the selections refer to, recorded so they can follow later pushes
+  headSha?: string;
 }
 
 /**
@@ -108,32 +388,101 @@ export function generatePrDescription(options: PrDescriptionOptions): string {
   const {
     originalPrNumber,
     originalPrTitle,
-    path,
-    startLine,
-    endLine,
+    selections,
     commentId,
     authorLogin,
+    group,
+    reviewId,
+    commentKind = 'review',
+    stackedOn,
     customDescription,
+    footer,
+    autoSync,
+    moved,
+    headSha,
   } = options;
 
-  const lineRange = startLine === endLine ? `line ${endLine}` : `lines ${startLine}-${endLine}`;
+  const anchors = {
+    review: (id: number) => `discussion_r${id}`,
+    issue: (id: number) => `issuecomment-${id}`,
+    note: (id: number) => `note_${id}`,
+  };
+  // GitLab merge requests are referenced as !123
+  const pullPath = commentKind === 'note' ? 'merge_requests' : 'pull';
+  const referencePrefix = commentKind === 'note' ? '!' : '#';
+  const reference = `${referencePrefix}${originalPrNumber}`;
+  // Splices from the command line have no comment (id 0) to link to
+  const commentLink = (label: string, id: number) =>
+    id ? ` ([${label}](../${pullPath}/${originalPrNumber}#${anchors[commentKind](id)}))` : '';
+
+  const excluding = (exclude?: LineExclusion) => (exclude ? `, excluding \`${formatExclusion(exclude)}\`` : '');
 
-  const parts = [
-    `Spliced from #${originalPrNumber} (${originalPrTitle})`,
-    '',
-    `- **File**: \`${path}\` at ${lineRange}`,
-    `- **Requested by**: @${authorLogin} ([view comment](../pull/${originalPrNumber}#discussion_r${commentId}))`,
-  ];
+  const parts = [`Spliced from ${reference} (${originalPrTitle})`, ''];
+
+  if (selections.length === 1) {
+    const { path, startLine, endLine, exclude } = selections[0];
+    parts.push(`- **File**: \`${path}\` at ${formatLineRange(startLine, endLine)}${excluding(exclude)}`);
+  } else {
+    parts.push('- **Files**:');
+    for (const { path, startLine, endLine, commentId: selectionCommentId, exclude } of selections) {
+      parts.push(
+        `  - \`${path}\` at ${formatLineRange(startLine, endLine)}${excluding(exclude)}${commentLink('comment', selectionCommentId)}`
+      );
+    }
+  }
+
+  if (group) {
+    parts.push(`- **Group**: \`${group}\``);
+  }
+
+  if (stackedOn) {
+    const stackedPr = stackedOn.prNumber ? `${referencePrefix}${stackedOn.prNumber} ` : '';
+    parts.push(`- **Stacked on**: ${stackedPr}\`${stackedOn.branch}\``);
+  }
+
+  if (moved) {
+    parts.push(`- **Moved**: the changes were removed from ${reference}`);
+  }
+
+  const requestLink = reviewId
+    ? ` ([view review](../pull/${originalPrNumber}#pullrequestreview-${reviewId}))`
+    : commentLink('view comment', commentId);
+  parts.push(`- **Requested by**: @${authorLogin}${requestLink}`);
 
   if (customDescription) {
     parts.push('', customDescription);
   }
 
+  if (footer) {
+    parts.push('', footer);
+  }
+
   // Machine-readable metadata for post-merge callbacks
   const metadata = {
     'splice-bot': {
       'original-pr': originalPrNumber,
       'comment-id': commentId,
+      ...(reviewId ? { 'review-id': reviewId } : {}),
+      ...(group ? { group } : {}),
+      ...(commentKind !== 'review' ? { 'comment-kind': commentKind } : {}),
+      ...(autoSync ? { 'auto-sync': true } : {}),
+      ...(moved ? { moved: true } : {}),
+      ...(headSha
+        ? {
+            'requested-by': authorLogin,
+            'head-sha': headSha,
+            selections: selections.map(({ path, startLine, endLine, commentId: comment, extract, startSide, side, exclude }) => ({
+              path,
+              start: startLine,
+              end: endLine,
+              ...(comment ? { comment } : {}),
+              ...(extract ? { extract } : {}),
+              ...(startSide === 'LEFT' ? { 'start-side': startSide } : {}),
+              ...(side === 'LEFT' ? { side } : {}),
+              ...(exclude ? { exclude: formatExclusion(exclude) } : {}),
+            })),
+          }
+        : {}),
     },
   };
 
@@ -146,3 +495,126 @@ export function generatePrDescription(options: PrDescriptionOptions): string {
 
   return parts.join('\n');
 }
+
+/**
+ * Parse splice-bot metadata from PR description
+ */
+export function parseSpliceBotMetadata(body: string): SpliceBotMetadata | null {
+  // Look for the HTML comment with JSON metadata
+  const match = body.match(/<!--\s*(\{"splice-bot":.+?\})\s*-->/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(match[1]) as SpliceBotMetadata;
+    if (metadata['splice-bot'] && typeof metadata['splice-bot']['original-pr'] === 'number') {
+      return metadata;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export interface SpliceTarget {
+  originalPrNumber: number;
+  commentId: number;
+  branchName: string;
+  group?: string;
+  reviewId?: number;
+  update?: boolean;
+}
+
+/**
+ * Find the open spliced PR that a splice should update instead of creating a new one
+ * Re-running a comment (or group, or review) updates its PR; with --update the most recent
+ * splice of the original PR is updated otherwise.
+ */
+export function findSplicePrToUpdate(prs: SplicePullRequest[], target: SpliceTarget): SplicePullRequest | null {
+  const candidates = prs.filter(pr => pr.metadata['splice-bot']['original-pr'] === target.originalPrNumber);
+
+  const sameSplice = candidates.find(pr => {
+    const metadata = pr.metadata['splice-bot'];
+    if (pr.headBranch === target.branchName) {
+      return true;
+    }
+    if (target.reviewId) {
+      return metadata['review-id'] === target.reviewId;
+    }
+    if (target.group) {
+      return metadata.group === target.group;
+    }
+    // Splices without a comment (id 0) are only matched by branch
+    return target.commentId > 0 && metadata['comment-id'] === target.commentId;
+  });
+  if (sameSplice) {
+    return sameSplice;
+  }
+
+  if (target.update && candidates.length > 0) {
+    return candidates.reduce((latest, pr) => (pr.number > latest.number ? pr : latest));
+  }
+
+  return null;
+}
+
+/**
+ * Find the open spliced PR that a comment created or is part of, by the comment ids in its metadata
+ * Names in the comment, like its branch or group, are not trusted: anyone can write them.
+ */
+export function findSplicePrOfComment(
+  prs: SplicePullRequest[],
+  originalPrNumber: number,
+  commentId: number
+): SplicePullRequest | null {
+  return (
+    prs.find(pr => {
+      const metadata = pr.metadata['splice-bot'];
+      return (
+        metadata['original-pr'] === originalPrNumber &&
+        (metadata['comment-id'] === commentId || !!metadata.selections?.some(s => s.comment === commentId))
+      );
+    }) || null
+  );
+}
+
+/**
+ * Maximum number of conflicting lines listed per hunk in a conflict report
+ */
+const MAX_REPORTED_LINES = 5;
+
+/**
+ * Wrap text in an inline code span, even if it contains backticks
+ */
+function inlineCode(text: string): string {
+  return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+/**
+ * Generate a report of the hunks that do not apply to the base branch
+ */
+export function formatConflictReport(conflicts: FileConflict[], baseBranch: string): string {
+  const parts = [`The selected changes do not apply cleanly to \`${baseBranch}\`:`];
+
+  for (const { path, hunks } of conflicts) {
+    for (const { hunk, lines } of hunks) {
+      const header = hunk.content.split('\n')[0];
+      parts.push('', `**\`${path}\`** (${inlineCode(header)})`);
+
+      // Hunks without context can't be placed once the file changed
+      if (lines.length === 0) {
+        parts.push("- The added lines have no unchanged lines around them, and the file changed since the PR's base");
+      }
+      for (const line of lines.slice(0, MAX_REPORTED_LINES)) {
+        const actual = line.actual === null ? 'end of file' : inlineCode(line.actual);
+        parts.push(`- Line ${line.lineNumber}: expected ${inlineCode(line.expected)}, found ${actual}`);
+      }
+      if (lines.length > MAX_REPORTED_LINES) {
+        parts.push(`- ...and ${lines.length - MAX_REPORTED_LINES} more`);
+      }
+    }
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,147 @@
+import * as core from '@actions/core';
+import { GitHub } from '@actions/github/lib/utils';
+import { getPermissionLevel, isTeamMember } from './github';
+import { GitLabClient, getAccessLevel, isGroupMember } from './gitlab';
+import { Permission, SplicePolicy } from './types';
+
+type Octokit = InstanceType<typeof GitHub>;
+
+const PERMISSIONS: Permission[] = ['none', 'read', 'triage', 'write', 'maintain', 'admin'];
+
+/**
+ * Parse a comma-separated list of users or teams, ignoring @ prefixes and case
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim().replace(/^@/, '').toLowerCase())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Read the splice policy from the action inputs, or from other settings with the same names
+ */
+export function getSplicePolicy(getInput: (name: string) => string = core.getInput): SplicePolicy {
+  const minPermission = (getInput('min-permission') || 'write').toLowerCase() as Permission;
+  if (!PERMISSIONS.includes(minPermission)) {
+    throw new Error(`Invalid min-permission "${minPermission}", expected one of ${PERMISSIONS.join(', ')}`);
+  }
+
+  return {
+    minPermission,
+    allowedUsers: parseList(getInput('allowed-users')),
+    deniedUsers: parseList(getInput('denied-users')),
+    allowedTeams: parseList(getInput('allowed-teams')),
+    deniedTeams: parseList(getInput('denied-teams')),
+    allowPrAuthor: getInput('allow-pr-author') === 'true',
+  };
+}
+
+/**
+ * Find the first of the teams that the user is a member of
+ */
+async function findTeam(teams: string[], isMember: (team: string) => Promise<boolean>): Promise<string | null> {
+  for (const team of teams) {
+    if (await isMember(team)) {
+      return team;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a user against the policy, looking up their teams and role on the forge
+ * Returns why the user is refused, or null if they may splice.
+ */
+async function evaluatePolicy(
+  policy: SplicePolicy,
+  login: string,
+  prAuthor: string,
+  isMember: (team: string) => Promise<boolean>,
+  getPermission: () => Promise<Permission>
+): Promise<string | null> {
+  const user = login.toLowerCase();
+
+  if (policy.deniedUsers.includes(user)) {
+    return `@${login} is not allowed to use splice-bot in this repository.`;
+  }
+  const deniedTeam = await findTeam(policy.deniedTeams, isMember);
+  if (deniedTeam) {
+    return `Members of \`${deniedTeam}\` are not allowed to use splice-bot in this repository.`;
+  }
+
+  if (policy.allowedUsers.includes(user) || (await findTeam(policy.allowedTeams, isMember))) {
+    return null;
+  }
+  if (policy.allowPrAuthor && user === prAuthor.toLowerCase()) {
+    return null;
+  }
+
+  const level = await getPermission();
+  if (PERMISSIONS.indexOf(level) >= PERMISSIONS.indexOf(policy.minPermission)) {
+    return null;
+  }
+  return `Splicing requires the \`${policy.minPermission}\` permission on this repository, but @${login} has \`${level}\`.`;
+}
+
+/**
+ * Check whether a user may run splice-bot commands on a PR
+ * Returns why the user is refused, or null if they may splice.
+ */
+export async function checkSplicePermission(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  policy: SplicePolicy,
+  login: string,
+  prAuthor: string
+): Promise<string | null> {
+  const isMember = (team: string) => {
+    const [org, slug] = team.includes('/') ? team.split('/') : [owner, team];
+    return isTeamMember(octokit, org, slug, login);
+  };
+
+  return evaluatePolicy(policy, login, prAuthor, isMember, async () => {
+    try {
+      const { permission, roleName } = await getPermissionLevel(octokit, owner, repo, login);
+      // Custom roles are reported by name, their permission is one of the base roles
+      return (PERMISSIONS.includes(roleName as Permission) ? roleName : permission) as Permission;
+    } catch {
+      return 'none';
+    }
+  });
+}
+
+/**
+ * GitLab access levels, from the highest, and the role each counts as
+ * Guests and planners can read, reporters triage, developers write.
+ */
+const ACCESS_LEVELS: [number, Permission][] = [
+  [50, 'admin'],
+  [40, 'maintain'],
+  [30, 'write'],
+  [20, 'triage'],
+  [10, 'read'],
+];
+
+/**
+ * Check whether a GitLab user may run splice-bot commands on a merge request
+ * Teams are groups, by their full path. Returns why the user is refused, or null if they may splice.
+ */
+export async function checkGitLabPermission(
+  client: GitLabClient,
+  policy: SplicePolicy,
+  user: { id: number; username: string },
+  mrAuthorId: number
+): Promise<string | null> {
+  return evaluatePolicy(
+    policy,
+    user.username,
+    user.id === mrAuthorId ? user.username : '',
+    group => isGroupMember(client, group, user.id),
+    async () => {
+      const level = await getAccessLevel(client, user.id);
+      return ACCESS_LEVELS.find(([min]) => level >= min)?.[1] || 'none';
+    }
+  );
+}
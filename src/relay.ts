@@ -0,0 +1,91 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { WebhookPayload } from '@actions/github/lib/interfaces';
+import { getPullRequestData, getReview, getReviewComment } from './github';
+
+/**
+ * A review event recorded by the first stage of the two-stage mode
+ * Events on PRs from forks only get a read-only token. The first stage records the event in an
+ * artifact, and a privileged `workflow_run` job replays it. Only ids are recorded, since the
+ * artifact may have been written by code from the fork: the second stage fetches the comment
+ * or review itself.
+ */
+export interface RecordedEvent {
+  eventName: string;
+  action: string;
+  prNumber: number;
+  commentId?: number;
+  reviewId?: number;
+}
+
+/**
+ * Record a review comment or review event to a file, to be uploaded as an artifact
+ */
+export function recordEvent(context: typeof github.context, file: string): RecordedEvent | null {
+  const { eventName, payload } = context;
+  const prNumber = payload.pull_request?.number;
+
+  let event: RecordedEvent | null = null;
+  if (eventName === 'pull_request_review_comment' && payload.comment && prNumber) {
+    event = { eventName, action: payload.action || '', prNumber, commentId: payload.comment.id };
+  } else if (eventName === 'pull_request_review' && payload.review && prNumber) {
+    event = { eventName, action: payload.action || '', prNumber, reviewId: payload.review.id };
+  }
+
+  if (!event) {
+    core.info(`Nothing to record for ${eventName} events`);
+    return null;
+  }
+
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(event));
+  core.info(`Recorded ${eventName} event of PR #${prNumber} to ${file}`);
+  return event;
+}
+
+/**
+ * Rebuild the payload of a recorded event from the API, so that it can be handled as if the
+ * privileged job had received it (with the fields of the PR that the handlers use)
+ * Deletions and edits that removed the command are skipped: their comment can't be fetched to
+ * verify them.
+ */
+export async function replayEvent(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  file: string
+): Promise<{ eventName: string; payload: WebhookPayload } | null> {
+  const event = JSON.parse(readFileSync(file, 'utf-8')) as RecordedEvent;
+
+  if (event.eventName === 'pull_request_review_comment' && typeof event.commentId === 'number') {
+    if (event.action !== 'created' && event.action !== 'edited') {
+      core.info(`Review comment ${event.action} events can't be replayed, skipping`);
+      return null;
+    }
+
+    const { comment, prNumber } = await getReviewComment(octokit, owner, repo, event.commentId);
+    const pullRequest = await getPullRequestData(octokit, owner, repo, prNumber);
+    return {
+      eventName: event.eventName,
+      payload: { action: event.action, comment, pull_request: { number: prNumber, user: pullRequest.user } },
+    };
+  }
+
+  if (event.eventName === 'pull_request_review' && typeof event.reviewId === 'number') {
+    // Fetching the review through its PR checks that it belongs to that PR
+    const review = await getReview(octokit, owner, repo, event.prNumber, event.reviewId);
+    if (review.state === 'PENDING') {
+      core.info(`Review ${review.id} is not submitted, skipping`);
+      return null;
+    }
+    const pullRequest = await getPullRequestData(octokit, owner, repo, event.prNumber);
+    return {
+      eventName: event.eventName,
+      payload: { action: 'submitted', review, pull_request: { number: event.prNumber, user: pullRequest.user } },
+    };
+  }
+
+  throw new Error(`Invalid recorded event in ${file}`);
+}
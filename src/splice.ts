@@ -0,0 +1,875 @@
+import * as core from '@actions/core';
+import {
+  parseInstruction,
+  generateBranchName,
+  generateGroupBranchName,
+  generatePrTitle,
+  generatePrDescription,
+  formatLineRange,
+  formatConflictReport,
+  parseSpliceBotMetadata,
+  findSplicePrToUpdate,
+  getExtractMode,
+  withExtractMode,
+  parseMatchPattern,
+  parseExclusion,
+  matchesPath,
+} from './parser';
+import {
+  extractHunkForLineRange,
+  extractHunksForLineRange,
+  findMatchingHunks,
+  getPrFile,
+  extractEntireHunkForLine,
+  extractAllHunks,
+  mergeChanges,
+  buildFileUpdates,
+  getPullRequestChanges,
+  compareChanges,
+  formatPatch,
+  mapLineRange,
+  reverseHunk,
+} from './diff';
+import { ForgeAdapter } from './forge';
+import { findEnclosingBlock } from './blocks';
+import {
+  CONFIG_PATH,
+  loadConfig,
+  applyConfig,
+  applyExtractDefault,
+  fillBranchTemplate,
+  fillTemplate,
+  matchesBranch,
+} from './config';
+import {
+  CommentContext,
+  ExtractedChange,
+  FileMode,
+  FileUpdate,
+  LineExclusion,
+  LineSelection,
+  PrFile,
+  PullRequestDetails,
+  SpliceInstruction,
+  SplicePullRequest,
+  SpliceResult,
+  SyntaxUnit,
+} from './types';
+
+/**
+ * A comment selection together with the instruction it carries
+ */
+export interface SpliceSelection {
+  context: CommentContext;
+  instruction: SpliceInstruction;
+}
+
+/**
+ * Settings of a splice that don't come from a single review comment
+ */
+export interface SpliceOverrides {
+  selections?: SpliceSelection[];
+  // Branch of the splice without a branch template, e.g. of a review
+  branchName?: string;
+  // Id of the splice for the branch template, instead of the group or comment id
+  spliceId?: string;
+  reviewId?: number;
+  commentKind?: 'review' | 'issue' | 'note';
+  reply?: (message: string) => Promise<void>;
+  // Requester named in the PR description when it's not the commit author
+  requestedBy?: string;
+  // Only extract and apply the changes, returning the patch instead of creating a PR
+  dryRun?: boolean;
+  // Whether another user may splice, for review comments of the group written by someone else
+  isAuthorized?: (login: string) => Promise<boolean>;
+}
+
+/**
+ * Collect all review comments on the PR that carry the same group tag
+ * Comments by other users only join the group if they may splice themselves.
+ */
+async function collectGroupSelections(
+  forge: ForgeAdapter,
+  commentContext: CommentContext,
+  instruction: SpliceInstruction,
+  group: string,
+  isAuthorized: (login: string) => Promise<boolean> = async () => false
+): Promise<SpliceSelection[]> {
+  const comments = await forge.listReviewComments(commentContext.prNumber);
+  const selections: SpliceSelection[] = [];
+  const authorized = new Map<string, Promise<boolean>>([[commentContext.authorLogin, Promise.resolve(true)]]);
+
+  for (const comment of comments) {
+    if (comment.commentId === commentContext.commentId) {
+      continue;
+    }
+    const commentInstruction = parseInstruction(comment.body);
+    if (commentInstruction?.group !== group) {
+      continue;
+    }
+    if (!authorized.has(comment.authorLogin)) {
+      authorized.set(comment.authorLogin, isAuthorized(comment.authorLogin));
+    }
+    if (await authorized.get(comment.authorLogin)) {
+      selections.push({ context: comment, instruction: commentInstruction });
+    } else {
+      core.info(`Skipping comment ${comment.commentId} by @${comment.authorLogin}, who may not splice`);
+    }
+  }
+
+  // The triggering comment may not be listed yet, so always add it explicitly
+  selections.push({ context: commentContext, instruction });
+
+  return selections;
+}
+
+/**
+ * Find the comment to splice the rest of a group from, after one of its comments was deleted
+ * or edited to no longer contain the command: the most recent one by a user who may splice
+ */
+export async function findGroupTrigger(
+  forge: ForgeAdapter,
+  prNumber: number,
+  removedCommentId: number,
+  group: string,
+  isAuthorized: (login: string) => Promise<boolean>
+): Promise<SpliceSelection | null> {
+  const remaining: SpliceSelection[] = [];
+  for (const comment of await forge.listReviewComments(prNumber)) {
+    const instruction = comment.commentId !== removedCommentId ? parseInstruction(comment.body) : null;
+    if (instruction?.group === group) {
+      remaining.push({ context: comment, instruction });
+    }
+  }
+
+  remaining.sort((a, b) => b.context.commentId - a.context.commentId);
+  for (const selection of remaining) {
+    if (await isAuthorized(selection.context.authorLogin)) {
+      return selection;
+    }
+  }
+  return null;
+}
+
+/**
+ * List the open PRs created by splice-bot
+ * Spliced PRs always have their branch in the repository, so PRs from forks are never included,
+ * even if they copy the metadata or the name of a splice branch.
+ */
+export async function listSplicePullRequests(forge: ForgeAdapter): Promise<SplicePullRequest[]> {
+  const prs = await forge.listOpenPullRequests();
+  const splicePrs: SplicePullRequest[] = [];
+
+  for (const pr of prs) {
+    const metadata = pr.fromFork ? null : parseSpliceBotMetadata(pr.body);
+    if (metadata) {
+      splicePrs.push({
+        number: pr.number,
+        url: pr.url,
+        headBranch: pr.headBranch,
+        baseBranch: pr.baseBranch,
+        metadata,
+      });
+    }
+  }
+
+  return splicePrs;
+}
+
+/**
+ * Find an open spliced PR of the same original PR whose changes match or overlap the given ones
+ */
+async function findDuplicateSplice(
+  forge: ForgeAdapter,
+  prNumber: number,
+  splicePrs: SplicePullRequest[],
+  changes: ExtractedChange[]
+): Promise<{ pr: SplicePullRequest; comparison: 'identical' | 'overlapping' } | null> {
+  for (const pr of splicePrs) {
+    if (pr.metadata['splice-bot']['original-pr'] !== prNumber) {
+      continue;
+    }
+
+    const spliced = await getPullRequestChanges(forge, pr.number);
+    const comparison = compareChanges(changes, spliced);
+    if (comparison !== 'distinct') {
+      core.info(`Selection is ${comparison} with spliced PR #${pr.number}`);
+      return { pr, comparison };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the mode of a changed file in the PR, and in the base if the PR changes it
+ */
+async function getFileModes(
+  forge: ForgeAdapter,
+  file: PrFile,
+  ref: string,
+  baseRef: string
+): Promise<{ mode?: FileMode; oldMode?: FileMode }> {
+  const mode = (await forge.getFileMode(file.path, ref)) || undefined;
+  if (!mode || file.status === 'added') {
+    return { mode };
+  }
+  const oldMode = (await forge.getFileMode(file.previousPath || file.path, baseRef)) || undefined;
+  return oldMode && oldMode !== mode ? { mode, oldMode } : { mode };
+}
+
+/**
+ * Get the changed file of a comment as it was in the commit the comment was left on
+ * Comments on the head of the PR, and those on commits that can't be compared, use the PR's current diff.
+ */
+async function getCommentedFile(
+  forge: ForgeAdapter,
+  context: CommentContext,
+  prDetails: PullRequestDetails
+): Promise<PrFile | null> {
+  const { prNumber, path, commitId } = context;
+  if (!commitId || commitId === prDetails.headSha) {
+    return getPrFile(forge, prNumber, path);
+  }
+
+  try {
+    const files = await forge.listChangedFiles(prDetails.baseBranch, commitId);
+    return files.find(f => f.path === path) || null;
+  } catch (error) {
+    core.warning(`Could not get the changes of ${commitId}, using the current diff of the PR: ${error}`);
+    return getPrFile(forge, prNumber, path);
+  }
+}
+
+/**
+ * Follow the lines of a comment from the commit it was left on to the head of the PR
+ * Returns null when the head doesn't build on that commit, e.g. after a force-push.
+ * Lines of the base (LEFT) don't move.
+ */
+async function followToHead(
+  forge: ForgeAdapter,
+  context: CommentContext,
+  headSha: string
+): Promise<{ path: string; startLine: number; endLine: number; changed: boolean } | null> {
+  const { path, startLine, endLine, startSide, side, commitId } = context;
+  if (!commitId || commitId === headSha || startSide === 'LEFT' || side === 'LEFT') {
+    return { path, startLine, endLine, changed: false };
+  }
+
+  const comparison = await forge.compareCommits(commitId, headSha).catch(() => null);
+  if (!comparison) {
+    return null;
+  }
+  const file = comparison.files.find(f => (f.previousPath || f.path) === path);
+  if (!file?.patch) {
+    return { path: file?.path || path, startLine, endLine, changed: !!file };
+  }
+  return { path: file.path, ...mapLineRange(file.patch, startLine, endLine) };
+}
+
+/**
+ * Move excluded line numbers along with the selection they belong to
+ */
+function shiftExclusion(exclusion: LineExclusion, offset: number): LineExclusion {
+  const lines = exclusion.lines.map(({ startLine, endLine }) => ({
+    startLine: startLine + offset,
+    endLine: endLine + offset,
+  }));
+  return { ...exclusion, lines };
+}
+
+/**
+ * Extract the changes for one selection based on its extraction mode
+ */
+async function extractSelection(
+  forge: ForgeAdapter,
+  selection: SpliceSelection,
+  prDetails: PullRequestDetails
+): Promise<{ changes: ExtractedChange | null; mode: string }> {
+  const { path, startLine, endLine, startSide, side, commitId } = selection.context;
+  const { instruction } = selection;
+  const lineRange = formatLineRange(startLine, endLine);
+
+  let changes: ExtractedChange | null = null;
+  let mode = 'lines';
+
+  // The diff the comment was written on, which is older than the PR's head for stale comments
+  const file = await getCommentedFile(forge, selection.context, prDetails);
+
+  if (instruction.entireFile) {
+    mode = 'entire file';
+    core.info(`Extracting entire file changes from ${path}...`);
+    const hunks = file?.patch ? extractAllHunks(file.patch) : [];
+    // Renames, copies, deletions and mode changes need no patch to be spliced
+    const modeChanged =
+      file && file.status !== 'removed' && !!(await getFileModes(forge, file, commitId || prDetails.headSha, prDetails.baseSha)).oldMode;
+    const structural = file && (['renamed', 'copied', 'removed'].includes(file.status) || modeChanged);
+    if (file && (hunks.length > 0 || structural)) {
+      changes = { path, hunks, status: file.status, previousPath: file.previousPath };
+    }
+  } else if (instruction.entireHunk) {
+    mode = 'entire hunk';
+    core.info(`Extracting entire hunk from ${path} containing ${lineRange}...`);
+    const hunk = file?.patch ? extractEntireHunkForLine(file.patch, endLine, side) : null;
+    if (file && hunk) {
+      changes = { path, hunks: [hunk], status: file.status, previousPath: file.previousPath };
+    }
+  } else if (instruction.entireFunction || instruction.entireBlock) {
+    const unit: SyntaxUnit = instruction.entireFunction ? 'function' : 'block';
+    mode = `entire ${unit}`;
+    core.info(`Extracting the ${unit} of ${path} enclosing ${lineRange}...`);
+    // Functions and blocks are found in the file the comment was written on, which has no removed lines
+    const onBase = startSide === 'LEFT' || side === 'LEFT';
+    const content = file?.patch && !onBase ? await forge.getFileContent(path, commitId || prDetails.headSha) : null;
+    const span = content !== null ? findEnclosingBlock(content, path, startLine, endLine, unit) : null;
+    const hunks =
+      file?.patch && span
+        ? extractHunksForLineRange(file.patch, span.startLine, span.endLine, instruction.exclude)
+        : [];
+    if (file && hunks.length > 0) {
+      changes = { path, hunks, status: file.status, previousPath: file.previousPath };
+    }
+  } else {
+    core.info(`Extracting changes from ${path} at ${lineRange}...`);
+    const hunk = file?.patch
+      ? extractHunkForLineRange(file.patch, startLine, endLine, startSide, side, instruction.exclude)
+      : null;
+    if (file && hunk) {
+      changes = { path, hunks: [hunk], status: file.status, previousPath: file.previousPath };
+    }
+  }
+
+  // Keep the file mode from the PR, e.g. the executable bit of scripts
+  if (file && changes && changes.status !== 'removed') {
+    Object.assign(changes, await getFileModes(forge, file, commitId || prDetails.headSha, prDetails.baseSha));
+  }
+
+  return { changes, mode };
+}
+
+/**
+ * Extract the hunks of a PR with a changed line matching a pattern, in the files matching the globs
+ * Without a pattern, all hunks of the matching files are extracted.
+ */
+async function extractMatchingChanges(
+  forge: ForgeAdapter,
+  prNumber: number,
+  prDetails: PullRequestDetails,
+  pattern: RegExp | null,
+  paths?: string[]
+): Promise<ExtractedChange[]> {
+  const changes: ExtractedChange[] = [];
+
+  for (const file of await forge.listPullRequestFiles(prNumber)) {
+    if (paths && !matchesPath(file.path, paths)) {
+      continue;
+    }
+    const hunks = !file.patch ? [] : pattern ? findMatchingHunks(file.patch, pattern) : extractAllHunks(file.patch);
+    // Without a pattern, files whose mode changed are spliced even without a patch
+    if (hunks.length === 0 && (pattern || file.patch)) {
+      continue;
+    }
+
+    const modes =
+      file.status !== 'removed' ? await getFileModes(forge, file, prDetails.headSha, prDetails.baseSha) : {};
+    if (hunks.length === 0 && !modes.oldMode) {
+      continue;
+    }
+    changes.push({ path: file.path, hunks, status: file.status, previousPath: file.previousPath, ...modes });
+  }
+
+  return changes;
+}
+
+/**
+ * Reverse a spliced change, to remove it from the head of the original PR
+ * Renamed and copied files keep their new path; added files are removed once all their lines are
+ */
+function reverseChange(change: ExtractedChange): ExtractedChange {
+  return {
+    path: change.path,
+    hunks: change.hunks.map(reverseHunk),
+    status: change.status === 'added' ? 'removed' : 'modified',
+    // A changed mode goes back to the mode of the base
+    mode: change.oldMode || change.mode,
+    oldMode: change.oldMode && change.mode,
+  };
+}
+
+export async function splice(
+  forge: ForgeAdapter,
+  commentContext: CommentContext,
+  instruction: SpliceInstruction,
+  overrides: SpliceOverrides = {}
+): Promise<SpliceResult> {
+  const { prNumber, commentId, authorLogin, authorEmail } = commentContext;
+  const reply = overrides.reply || ((message: string) => forge.replyToComment(commentContext, message));
+
+  try {
+    // Get PR details
+    core.info(`Getting PR #${prNumber} details...`);
+    const prDetails = await forge.getPullRequest(prNumber);
+
+    // Repository defaults, from the configuration on the base branch of the PR
+    const { config, errors: configErrors } = await loadConfig(forge, prDetails.baseBranch);
+    if (configErrors.length > 0) {
+      const errorMessage = `Invalid \`${CONFIG_PATH}\` on \`${prDetails.baseBranch}\`:\n\n${configErrors.map(e => `- ${e}`).join('\n')}`;
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+
+    // Gather the selections: every comment of the group, or just this one
+    const selections = (
+      overrides.selections ||
+      (instruction.group
+        ? await collectGroupSelections(forge, commentContext, instruction, instruction.group, overrides.isAuthorized)
+        : [{ context: commentContext, instruction }])
+    ).map(s => ({ context: s.context, instruction: applyExtractDefault(s.instruction, config) }));
+
+    // Options set on other comments of the group apply unless overridden by this one
+    const options = applyConfig(Object.assign({}, ...selections.map(s => s.instruction)), config);
+
+    if (instruction.group) {
+      core.info(`Found ${selections.length} comment(s) in group "${instruction.group}"`);
+    }
+
+    // Determine the base branch; stacked splices are based on the branch of an earlier splice
+    const stackBranch = options.stack ? (await forge.getPullRequest(options.stack)).headBranch : options.after;
+    if (stackBranch && !(await forge.git.branchExists(stackBranch))) {
+      const errorMessage = `Cannot stack on \`${stackBranch}\`: the branch does not exist.`;
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+    const baseBranch = stackBranch || options.base || prDetails.baseBranch;
+
+    // Stacked splices target a splice branch, which the allowed bases don't need to list
+    if (!stackBranch && config.allowedBases && !matchesBranch(baseBranch, config.allowedBases)) {
+      const allowed = config.allowedBases.map(b => `\`${b}\``).join(', ');
+      const errorMessage = `Splices may not target \`${baseBranch}\`. The allowed base branches are ${allowed}.`;
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+
+    // Moved changes are removed from the original PR, so its branch must be pushable
+    if (options.move && prDetails.fromFork) {
+      const errorMessage = "Cannot move the changes: the branch of this PR is in a fork, which splice-bot can't push to.";
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+
+    // An explicit branch wins over the branch template, which wins over the default of the kind of splice
+    const defaultBranchName = config.branchTemplate
+      ? fillBranchTemplate(config.branchTemplate, prNumber, overrides.spliceId || instruction.group || commentId)
+      : overrides.branchName ||
+        (instruction.group ? generateGroupBranchName(prNumber, instruction.group) : generateBranchName(prNumber, commentId));
+    let branchName = options.branch || defaultBranchName;
+
+    // Extract the changes for every selection, or the hunks matching a pattern
+    const extracted: ExtractedChange[] = [];
+    const splicedSelections: LineSelection[] = [];
+    const staleWarnings: string[] = [];
+    if (options.match || options.paths) {
+      const pattern = options.match ? parseMatchPattern(options.match) : null;
+      if (options.match && !pattern) {
+        const errorMessage = `Invalid pattern \`${options.match}\`.`;
+        await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+        return { success: false, error: errorMessage };
+      }
+
+      const where = options.paths ? ` in ${options.paths.map(p => `\`${p}\``).join(', ')}` : '';
+      core.info(`Extracting the hunks matching ${options.match || 'any change'}${where}...`);
+      extracted.push(...(await extractMatchingChanges(forge, prNumber, prDetails, pattern, options.paths)));
+      if (extracted.length === 0) {
+        const what = options.match ? `match \`${options.match}\`` : 'were found';
+        const errorMessage = `No changes of this PR ${what}${where}.`;
+        await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+        return { success: false, error: errorMessage };
+      }
+
+      // Recorded as whole hunks, so they can be followed like hunks selected by comments
+      for (const change of extracted) {
+        for (const hunk of change.hunks) {
+          const endLine = hunk.newStart + Math.max(hunk.newLines, 1) - 1;
+          splicedSelections.push({ path: change.path, startLine: hunk.newStart, endLine, commentId, extract: 'hunk' });
+        }
+      }
+    } else {
+      // Comments on earlier commits are spliced as the reviewer saw them, and recorded with their lines at the head
+      for (const selection of selections) {
+        const { exclude } = selection.instruction;
+        const invalid = exclude?.patterns.find(p => !parseMatchPattern(p));
+        if (invalid) {
+          const errorMessage = `Invalid pattern \`${invalid}\` in \`exclude\`.`;
+          await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+          return { success: false, error: errorMessage };
+        }
+
+        const { changes, mode } = await extractSelection(forge, selection, prDetails);
+        const { path, startLine, endLine, startSide, side, commitId } = selection.context;
+        if (!changes) {
+          const location = instruction.group ? ` at ${formatLineRange(startLine, endLine)}` : '';
+          const errorMessage = `Could not extract changes from ${path}${location} (${mode}). The file may not have changes at this location.`;
+          await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+          return { success: false, error: errorMessage };
+        }
+        extracted.push(changes);
+
+        const followed = await followToHead(forge, selection.context, prDetails.headSha);
+        if (!followed || followed.changed) {
+          const gone = followed ? '' : ', which is no longer part of the PR';
+          staleWarnings.push(`- \`${path}\` at ${formatLineRange(startLine, endLine)}, commented on \`${commitId.substring(0, 7)}\`${gone}`);
+        }
+        // Lines removed since the comment keep their old numbers
+        const kept = followed && followed.endLine >= followed.startLine;
+        splicedSelections.push({
+          ...(kept ? followed : { path, startLine, endLine }),
+          commentId: selection.context.commentId,
+          extract: getExtractMode(selection.instruction),
+          startSide,
+          side,
+          exclude: exclude && shiftExclusion(exclude, kept ? followed.startLine - startLine : 0),
+        });
+      }
+    }
+
+    const changes = mergeChanges(extracted);
+    const paths = changes.map(c => c.path);
+
+    // Apply the changes to the base, refusing if any hunk does not match
+    core.info(`Applying changes to ${baseBranch}...`);
+    const { files, conflicts } = await buildFileUpdates(forge, changes, baseBranch, prDetails.baseSha);
+    if (conflicts.length > 0) {
+      const errorMessage = formatConflictReport(conflicts, baseBranch);
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+      return { success: false, error: `Changes do not apply cleanly to ${baseBranch}` };
+    }
+
+    const patch = formatPatch(changes, files.filter(f => f.content === null));
+
+    // Check that moved changes can be removed from the original PR before creating anything
+    let reversal: FileUpdate[] | null = null;
+    if (options.move) {
+      if (changes.some(c => c.status === 'removed')) {
+        const errorMessage = 'Cannot move the removal of a file, splice it without `--move` instead.';
+        await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+        return { success: false, error: errorMessage };
+      }
+
+      const reversed = changes.map(reverseChange);
+      const result = await buildFileUpdates(forge, reversed, prDetails.headSha);
+      if (result.conflicts.length > 0) {
+        const errorMessage = formatConflictReport(result.conflicts, prDetails.headBranch);
+        await reply(`❌ **Splice Bot Error**\n\n${errorMessage}`);
+        return { success: false, error: `Changes cannot be removed from ${prDetails.headBranch}` };
+      }
+      reversal = result.files;
+    }
+
+    // A dry run stops before anything is written
+    if (overrides.dryRun) {
+      return { success: true, branchName, patch };
+    }
+
+    // Look for an open spliced PR to update instead of starting over
+    const splicePrs = await listSplicePullRequests(forge);
+    const existingPr = findSplicePrToUpdate(splicePrs, {
+      originalPrNumber: prNumber,
+      commentId,
+      branchName,
+      group: instruction.group,
+      reviewId: overrides.reviewId,
+      update: options.update,
+    });
+
+    if (existingPr) {
+      core.info(`Updating existing spliced PR #${existingPr.number} on ${existingPr.headBranch}`);
+      branchName = existingPr.headBranch;
+    } else if (await forge.git.branchExists(branchName)) {
+      // A leftover branch without an open PR can safely be recreated
+      core.info(`Branch ${branchName} already exists, deleting...`);
+      await forge.git.deleteBranch(branchName);
+    }
+
+    // Don't open a second PR for a selection that was already spliced
+    if (!existingPr) {
+      const duplicate = await findDuplicateSplice(forge, prNumber, splicePrs, changes);
+      if (duplicate) {
+        const { pr, comparison } = duplicate;
+        const message =
+          comparison === 'identical'
+            ? `ℹ️ **Splice Bot**: this selection was already spliced in [#${pr.number}](${pr.url}).`
+            : `ℹ️ **Splice Bot**: this selection overlaps with [#${pr.number}](${pr.url}), so no new PR was created.\n\nTo replace its selection, use \`splice-bot branch:${pr.headBranch}\`.`;
+        await reply(message);
+        return { success: true, prUrl: pr.url, branchName: pr.headBranch, duplicateOf: pr.number };
+      }
+    }
+
+    // Create the new branch, or decide how to update the existing one
+    // A branch that contains the base tip gets a new commit, otherwise it's force-updated
+    let parentSha: string | undefined;
+    if (existingPr) {
+      if (await forge.git.isUpToDateWith(branchName, baseBranch)) {
+        parentSha = await forge.git.getBranchSha(branchName);
+      } else {
+        core.info(`Branch ${branchName} is behind ${baseBranch}, force-updating...`);
+      }
+    } else {
+      core.info(`Creating branch ${branchName}...`);
+      await forge.git.createBranch(branchName, baseBranch);
+    }
+
+    // Generate PR title
+    const generatedTitle = generatePrTitle(paths);
+    const prTitle =
+      options.title ||
+      (config.titleTemplate ? fillTemplate(config.titleTemplate, { title: generatedTitle, pr: prNumber }) : generatedTitle);
+
+    // Commit the changes
+    core.info('Committing changes...');
+    await forge.git.commitChanges(
+      branchName,
+      files,
+      baseBranch,
+      prTitle,
+      prNumber,
+      authorLogin,
+      authorEmail,
+      parentSha
+    );
+
+    // Generate PR description
+    const prDescription = generatePrDescription({
+      originalPrNumber: prNumber,
+      originalPrTitle: prDetails.title,
+      selections: splicedSelections,
+      commentId,
+      authorLogin: overrides.requestedBy || authorLogin,
+      group: instruction.group,
+      reviewId: overrides.reviewId,
+      commentKind: overrides.commentKind,
+      stackedOn: stackBranch ? { branch: stackBranch, prNumber: options.stack } : undefined,
+      customDescription: options.description,
+      footer: config.descriptionFooter,
+      autoSync: options.autoSync,
+      moved: options.move,
+      headSha: prDetails.headSha,
+    });
+
+    // Create the PR, or refresh the existing one
+    let newPr: { number: number; url: string };
+    if (existingPr) {
+      core.info(`Updating pull request #${existingPr.number}...`);
+      newPr = await forge.updatePullRequest(existingPr.number, prTitle, prDescription);
+      if (existingPr.baseBranch !== baseBranch) {
+        core.info(`Retargeting pull request #${existingPr.number} to ${baseBranch}...`);
+        await forge.updatePullRequestBase(existingPr.number, baseBranch);
+      }
+    } else {
+      core.info('Creating pull request...');
+      newPr = await forge.createPullRequest(prTitle, prDescription, branchName, baseBranch, options.draft || false);
+    }
+
+    // Add labels if specified
+    if (options.labels && options.labels.length > 0) {
+      core.info(`Adding labels: ${options.labels.join(', ')}`);
+      await forge.addLabels(newPr.number, options.labels);
+    }
+
+    // Request reviewers if specified
+    if (options.reviewers && options.reviewers.length > 0) {
+      core.info(`Requesting reviewers: ${options.reviewers.join(', ')}`);
+      await forge.requestReviewers(newPr.number, options.reviewers);
+    }
+
+    // Remove the moved changes from the original PR, on top of the commit they were taken from
+    if (reversal) {
+      const referencePrefix = overrides.commentKind === 'note' ? '!' : '#';
+      core.info(`Removing the moved changes from ${prDetails.headBranch}...`);
+      await forge.git.commitChanges(
+        prDetails.headBranch,
+        reversal,
+        prDetails.headBranch,
+        `Move ${prTitle} to ${referencePrefix}${newPr.number}`,
+        prNumber,
+        authorLogin,
+        authorEmail,
+        prDetails.headSha
+      );
+    }
+
+    // Reply to the original comment
+    const moved = reversal ? '\n\nThe changes were removed from this PR.' : '';
+    const stale =
+      staleWarnings.length > 0
+        ? `\n\n⚠️ The PR changed these lines after they were commented on, so they were spliced as they were then:\n\n${staleWarnings.join('\n')}`
+        : '';
+    const picked =
+      options.match || options.paths
+        ? `\n\nSpliced hunks:\n\n${splicedSelections.map(s => `- \`${s.path}\` at ${formatLineRange(s.startLine, s.endLine)}`).join('\n')}`
+        : '';
+    const successMessage = `✅ **Splice Bot** ${existingPr ? 'updated' : 'created'}:\n [#${newPr.number} - ${prTitle}](${newPr.url})${picked}${moved}${stale}`;
+    await reply(successMessage);
+
+    return {
+      success: true,
+      prUrl: newPr.url,
+      branchName,
+      updated: !!existingPr,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    core.error(`Splice operation failed: ${errorMessage}`);
+
+    // Try to reply with error
+    try {
+      await reply(`❌ **Splice Bot Error**\n\n${errorMessage}\n\nPlease check the action logs for more details.`);
+    } catch (replyError) {
+      core.warning(`Could not reply to comment: ${replyError}`);
+    }
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Retarget the spliced PRs stacked on a merged branch to the branch it was merged into
+ */
+export async function retargetStackedSplices(
+  forge: ForgeAdapter,
+  mergedBranch: string,
+  baseBranch: string
+): Promise<SplicePullRequest[]> {
+  const stacked = (await listSplicePullRequests(forge)).filter(pr => pr.baseBranch === mergedBranch);
+
+  for (const pr of stacked) {
+    core.info(`Retargeting stacked PR #${pr.number} from ${mergedBranch} to ${baseBranch}`);
+    await forge.updatePullRequestBase(pr.number, baseBranch);
+    await forge.createComment(
+      pr.number,
+      `⬇️ \`${mergedBranch}\`, which this PR was stacked on, has been merged, so this PR now targets \`${baseBranch}\`.`
+    );
+  }
+
+  return stacked;
+}
+
+/**
+ * Follow new commits on an original PR in its open spliced PRs
+ * Each selection is mapped through the new commits; when the selected lines changed, the
+ * selection is spliced again, keeping the title and base of the spliced PR. Spliced PRs that
+ * can't follow are told how far the original PR has moved on.
+ */
+export async function syncSplices(
+  forge: ForgeAdapter,
+  prNumber: number,
+  headSha: string,
+  pusher: { authorLogin: string; authorEmail: string }
+): Promise<void> {
+  const allSplicePrs = await listSplicePullRequests(forge);
+  const splicePrs = allSplicePrs.filter(pr => pr.metadata['splice-bot']['original-pr'] === prNumber);
+
+  for (const pr of splicePrs) {
+    const metadata = pr.metadata['splice-bot'];
+    const spliceSha = metadata['head-sha'];
+    if (!spliceSha || !metadata.selections) {
+      core.info(`Spliced PR #${pr.number} does not record its selections, skipping`);
+      continue;
+    }
+    if (spliceSha === headSha) {
+      continue;
+    }
+    if (metadata.moved) {
+      core.info(`Changes of spliced PR #${pr.number} were moved out of #${prNumber}, skipping`);
+      continue;
+    }
+
+    const reference = `${metadata['comment-kind'] === 'note' ? '!' : '#'}${prNumber}`;
+    const comparison = await forge.compareCommits(spliceSha, headSha);
+    if (!comparison) {
+      await forge.createComment(
+        pr.number,
+        `⚠️ ${reference} was force-pushed since this PR was spliced, so its changes can't be followed automatically. Re-run the splice-bot command to update this PR.`
+      );
+      continue;
+    }
+    const movedOn = `${reference} has ${comparison.commits} new commit${comparison.commits === 1 ? '' : 's'} since this PR was spliced`;
+
+    // Map the selections through the new commits
+    // Lines of the base (LEFT) don't move, so selections with them are spliced again as they were
+    const mapped = metadata.selections.map(selection => {
+      const file = comparison.files.find(f => (f.previousPath || f.path) === selection.path);
+      const onBase = selection['start-side'] === 'LEFT' || selection.side === 'LEFT';
+      const range =
+        file?.patch && !selection.extract && !onBase
+          ? mapLineRange(file.patch, selection.start, selection.end)
+          : { startLine: selection.start, endLine: selection.end, changed: !!file };
+      const removed = file?.status === 'removed' || range.endLine < range.startLine;
+      return { ...selection, ...range, path: file?.path || selection.path, removed };
+    });
+    const describe = (m: typeof mapped[0]) =>
+      `- \`${m.path}\` at ${formatLineRange(m.start, m.end)}` +
+      (m.removed ? '' : m.startLine !== m.start ? ` → ${formatLineRange(m.startLine, m.endLine)}` : '');
+
+    const removed = mapped.filter(m => m.removed);
+    if (removed.length > 0) {
+      await forge.createComment(pr.number, `⚠️ ${movedOn}, which removed the selected lines:\n\n${removed.map(describe).join('\n')}`);
+      continue;
+    }
+    if (!mapped.some(m => m.changed)) {
+      core.info(`Selection of spliced PR #${pr.number} is unchanged`);
+      continue;
+    }
+
+    // Splice the mapped selections again onto the branch of the spliced PR
+    core.info(`Selection of spliced PR #${pr.number} changed, splicing again`);
+    // The spliced PR keeps its title, branch, base and settings; stacked PRs stay on the PR below them
+    const stackedOn = allSplicePrs.find(p => p.headBranch === pr.baseBranch);
+    const instruction: SpliceInstruction = {
+      title: (await forge.getPullRequest(pr.number)).title,
+      ...(stackedOn ? { stack: stackedOn.number } : { base: pr.baseBranch }),
+      branch: pr.headBranch,
+      group: metadata.group,
+      autoSync: metadata['auto-sync'],
+    };
+    const selections: SpliceSelection[] = mapped.map(m => ({
+      context: {
+        commentId: m.comment || 0,
+        prNumber,
+        path: m.path,
+        startLine: m.startLine,
+        endLine: m.endLine,
+        originalStartLine: null,
+        originalEndLine: null,
+        startSide: m['start-side'],
+        side: m.side,
+        diffHunk: '',
+        body: '',
+        commitId: headSha,
+        ...pusher,
+      },
+      instruction: {
+        ...withExtractMode(instruction, m.extract),
+        ...(m.exclude ? { exclude: shiftExclusion(parseExclusion(m.exclude), m.startLine - m.start) } : {}),
+      },
+    }));
+
+    const messages: string[] = [];
+    const result = await splice(forge, { ...selections[0].context, commentId: metadata['comment-id'] }, instruction, {
+      selections,
+      reviewId: metadata['review-id'],
+      commentKind: metadata['comment-kind'],
+      requestedBy: metadata['requested-by'],
+      reply: async message => {
+        messages.push(message);
+      },
+    });
+
+    const changes = mapped.map(describe).join('\n');
+    await forge.createComment(
+      pr.number,
+      result.success
+        ? `🔄 ${movedOn}, so the selection was spliced again:\n\n${changes}`
+        : `⚠️ ${movedOn}, and the selected lines changed, but they could not be spliced again:\n\n${changes}\n\n${messages.join('\n\n')}`
+    );
+  }
+}
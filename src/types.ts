@@ -7,10 +7,51 @@ export interface SpliceInstruction {
   reviewers?: string[];
   draft?: boolean;
   branch?: string;
+  // Merge the base into the original PR once the splice is merged
+  autoSync?: boolean;
+  // Also remove the spliced changes from the original PR
+  move?: boolean;
   entireHunk?: boolean;
   entireFile?: boolean;
+  // Extract all changes of the enclosing function or block
+  entireFunction?: boolean;
+  entireBlock?: boolean;
+  update?: boolean;
+  ranges?: FileRange[];
+  // Splice the hunks whose changed lines match, `/regex/flags` or literal text, in the files matching the globs
+  match?: string;
+  paths?: string[];
+  // Leave lines out of the selected range
+  exclude?: LineExclusion;
+  // Base the splice on an earlier spliced PR or branch
+  stack?: number;
+  after?: string;
 }
 
+/**
+ * Lines left out of a selection: line numbers as shown in the diff, and `/regex/flags` or literal
+ * text matched against the content of changed lines
+ */
+export interface LineExclusion {
+  lines: { startLine: number; endLine: number }[];
+  patterns: string[];
+}
+
+/**
+ * Syntactic units that enclose selected lines
+ */
+export type SyntaxUnit = 'function' | 'block';
+
+/**
+ * Extraction modes other than the selected lines
+ */
+export type ExtractMode = 'hunk' | 'file' | SyntaxUnit;
+
+/**
+ * Side of a diff: the base (LEFT) or the head of the PR (RIGHT)
+ */
+export type DiffSide = 'LEFT' | 'RIGHT';
+
 export interface CommentContext {
   commentId: number;
   prNumber: number;
@@ -19,16 +60,66 @@ export interface CommentContext {
   endLine: number;
   originalStartLine: number | null;
   originalEndLine: number | null;
+  // Sides of the diff the first and last line are on, RIGHT when unset
+  // Lines on the LEFT side are line numbers of the base, e.g. of removed lines
+  startSide?: DiffSide;
+  side?: DiffSide;
   diffHunk: string;
   body: string;
   commitId: string;
   authorLogin: string;
   authorEmail: string;
+  // Discussion the comment belongs to, for forges that reply by discussion (GitLab)
+  threadId?: string;
+}
+
+export interface FileRange {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface LineSelection extends FileRange {
+  commentId: number;
+  // Set when whole hunks, files, functions or blocks were spliced rather than the lines
+  extract?: ExtractMode;
+  startSide?: DiffSide;
+  side?: DiffSide;
+  exclude?: LineExclusion;
+}
+
+export type FileStatus = 'added' | 'removed' | 'modified' | 'renamed' | 'copied';
+
+/**
+ * Git file modes: regular file, executable file and symlink
+ */
+export type FileMode = '100644' | '100755' | '120000';
+
+export interface PrFile {
+  path: string;
+  status: FileStatus;
+  previousPath?: string;
+  patch: string | null;
+}
+
+/**
+ * The changes between two commits
+ */
+export interface CommitComparison {
+  // Number of commits from the base to the head
+  commits: number;
+  files: PrFile[];
 }
 
 export interface ExtractedChange {
   path: string;
   hunks: DiffHunk[];
+  status?: FileStatus;
+  // Path in the base for renamed and copied files
+  previousPath?: string;
+  mode?: FileMode;
+  // Mode in the base, only set when the PR changes it
+  oldMode?: FileMode;
 }
 
 export interface DiffHunk {
@@ -39,9 +130,136 @@ export interface DiffHunk {
   content: string;
 }
 
+export interface ConflictLine {
+  lineNumber: number;
+  expected: string;
+  actual: string | null;
+}
+
+export interface HunkConflict {
+  hunk: DiffHunk;
+  lines: ConflictLine[];
+}
+
+export interface FileConflict {
+  path: string;
+  hunks: HunkConflict[];
+}
+
+export interface PatchResult {
+  success: boolean;
+  content: string;
+  conflicts: HunkConflict[];
+}
+
+export interface FileUpdate {
+  path: string;
+  // null deletes the file
+  content: string | null;
+  mode: FileMode;
+}
+
+/**
+ * Metadata embedded in PR descriptions for post-merge callbacks
+ */
+export interface SpliceBotMetadata {
+  'splice-bot': {
+    'original-pr': number;
+    'comment-id': number;
+    'review-id'?: number;
+    group?: string;
+    'comment-kind'?: 'issue' | 'note';
+    'requested-by'?: string;
+    'auto-sync'?: boolean;
+    moved?: boolean;
+    // Commit of the original PR that the selected lines refer to
+    'head-sha'?: string;
+    selections?: {
+      path: string;
+      start: number;
+      end: number;
+      comment?: number;
+      extract?: ExtractMode;
+      // Only recorded for lines on the LEFT side
+      'start-side'?: DiffSide;
+      side?: DiffSide;
+      // Excluded lines in the syntax of the `exclude` option, e.g. 22,30-31,/debug/
+      exclude?: string;
+    }[];
+  };
+}
+
+export interface PullRequestDetails {
+  title: string;
+  baseBranch: string;
+  headBranch: string;
+  headSha: string;
+  // Commit of the base the PR's diff was computed against
+  baseSha: string;
+  // Whether the head branch lives in another repository
+  fromFork: boolean;
+}
+
+export interface OpenPullRequest {
+  number: number;
+  url: string;
+  body: string;
+  headBranch: string;
+  baseBranch: string;
+  fromFork: boolean;
+}
+
+export interface SplicePullRequest {
+  number: number;
+  url: string;
+  headBranch: string;
+  baseBranch: string;
+  metadata: SpliceBotMetadata;
+}
+
 export interface SpliceResult {
   success: boolean;
   prUrl?: string;
   branchName?: string;
+  updated?: boolean;
+  duplicateOf?: number;
+  patch?: string;
   error?: string;
 }
+
+/**
+ * Repository roles, from least to most privileged
+ */
+export type Permission = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+/**
+ * Who may run splice-bot commands
+ * Denied users and teams are always refused; allowed ones (and PR authors on their own PR,
+ * if enabled) don't need the minimum permission.
+ */
+export interface SplicePolicy {
+  minPermission: Permission;
+  allowedUsers: string[];
+  deniedUsers: string[];
+  // Teams as "org/team-slug", or just the slug for teams of the repository owner
+  allowedTeams: string[];
+  deniedTeams: string[];
+  allowPrAuthor: boolean;
+}
+
+/**
+ * Repository defaults from .github/splice-bot.yml, applied under the options of a command
+ */
+export interface SpliceConfig {
+  labels?: string[];
+  reviewers?: string[];
+  draft?: boolean;
+  // Branch name for new splices, with {pr} and {id} (comment id or group name)
+  branchTemplate?: string;
+  // Title of splices without a title option, with {title} (the generated title) and {pr}
+  titleTemplate?: string;
+  descriptionFooter?: string;
+  // Branches (or patterns such as release/*) that splices may target
+  allowedBases?: string[];
+  extract?: 'lines' | ExtractMode;
+}
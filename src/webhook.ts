@@ -0,0 +1,253 @@
+import { createServer, IncomingMessage } from 'http';
+import * as core from '@actions/core';
+import { parseInstruction } from './parser';
+import { createSpliceCache, logApiUsage } from './cache';
+import {
+  GitLabClient,
+  GitLabNote,
+  createGitLabAdapter,
+  createGitLabBackend,
+  findUserId,
+  getCurrentUserId,
+  getGitLabAuthor,
+  noteToCommentContext,
+} from './gitlab';
+import { checkGitLabPermission, getSplicePolicy } from './policy';
+import { splice, retargetStackedSplices, syncSplices } from './splice';
+import { CommentContext, FileRange, SplicePolicy, SpliceResult } from './types';
+
+/**
+ * The fields of a GitLab note event that splice-bot uses
+ */
+export interface NoteEvent {
+  object_kind: string;
+  user: { id: number; username: string };
+  project: { id: number };
+  object_attributes: {
+    id: number;
+    note: string;
+    noteable_type: string;
+    discussion_id: string;
+    position?: GitLabNote['position'];
+  };
+  merge_request?: { iid: number; author_id: number; last_commit: { id: string } };
+}
+
+/**
+ * The fields of a GitLab merge request event that splice-bot uses
+ */
+export interface MergeRequestEvent {
+  object_kind: string;
+  user: { id: number; username: string };
+  project: { id: number };
+  object_attributes: {
+    iid: number;
+    action?: string;
+    source_branch: string;
+    target_branch: string;
+    source_project_id: number;
+    target_project_id: number;
+    last_commit: { id: string };
+    // Previous head commit, set when commits were pushed
+    oldrev?: string;
+  };
+}
+
+/**
+ * Create the forge adapter for the project of an event
+ */
+function createForge(apiUrl: string, token: string, projectId: number) {
+  const client: GitLabClient = { apiUrl, token, projectId };
+  const cache = createSpliceCache();
+  return { client, forge: createGitLabAdapter(client, createGitLabBackend(client, cache), cache), cache };
+}
+
+/**
+ * Read the splice policy from environment variables named after the action inputs,
+ * e.g. SPLICE_MIN_PERMISSION for min-permission
+ */
+export function getWebhookPolicy(env: NodeJS.ProcessEnv = process.env): SplicePolicy {
+  return getSplicePolicy(name => env[`SPLICE_${name.toUpperCase().replace(/-/g, '_')}`] || '');
+}
+
+/**
+ * Handle a note on a merge request that contains a splice-bot command
+ * Notes on the diff select their lines; other notes must list them, e.g. `splice-bot src/a.ts:10-20`
+ */
+export async function handleNoteEvent(
+  event: NoteEvent,
+  apiUrl: string,
+  token: string,
+  botUserId: number | null,
+  policy: SplicePolicy
+): Promise<SpliceResult | null> {
+  const note = event.object_attributes;
+  const mr = event.merge_request;
+
+  if (event.object_kind !== 'note' || note.noteable_type !== 'MergeRequest' || !mr) {
+    core.info('Not a merge request note, skipping');
+    return null;
+  }
+
+  // Replies of the bot may quote commands
+  if (event.user.id === botUserId) {
+    core.info('Ignoring note by splice-bot');
+    return null;
+  }
+
+  const onDiff = !!note.position;
+  const instruction = onDiff || /^\s*splice-bot\b/i.test(note.note) ? parseInstruction(note.note) : null;
+  if (!instruction) {
+    core.info('Note does not contain splice-bot command');
+    return null;
+  }
+
+  const { client, forge, cache } = createForge(apiUrl, token, event.project.id);
+
+  core.info(`Processing splice-bot command from note ${note.id} on !${mr.iid}`);
+  const context = noteToCommentContext(
+    { id: note.id, body: note.note, author: event.user, position: note.position },
+    note.discussion_id,
+    mr.iid
+  );
+
+  const rejection = await checkGitLabPermission(client, policy, event.user, mr.author_id);
+  if (rejection) {
+    core.info(`Refusing splice-bot command by @${event.user.username}: ${rejection}`);
+    await forge.replyToComment(context, `🚫 **Splice Bot**\n\n${rejection}`);
+    logApiUsage(cache);
+    return { success: false, error: rejection };
+  }
+
+  // Other notes of a group only count if their authors may splice too
+  const isAuthorized = async (username: string) => {
+    const id = await findUserId(client, username);
+    return id !== null && !(await checkGitLabPermission(client, policy, { id, username }, mr.author_id));
+  };
+
+  let result: SpliceResult;
+  if (onDiff) {
+    result = await splice(forge, context, instruction, { commentKind: 'note', isAuthorized });
+  } else if (instruction.ranges || instruction.match || instruction.paths) {
+    const toContext = (range: FileRange): CommentContext => ({
+      ...context,
+      path: range.path,
+      startLine: range.startLine,
+      endLine: range.endLine,
+      commitId: mr.last_commit.id,
+    });
+    // Patterns select hunks from the whole merge request
+    const ranges = instruction.ranges || [{ path: '', startLine: 0, endLine: 0 }];
+    const selections = ranges.map(range => ({ context: toContext(range), instruction }));
+    result = await splice(forge, selections[0].context, instruction, { selections, commentKind: 'note' });
+  } else {
+    const errorMessage =
+      'Please specify the lines to splice, e.g. `splice-bot src/a.ts:10-20 src/b.ts:5 title:"..."`, or a pattern, e.g. `splice-bot match:"/oldName/" paths:"src/**/*.ts"`.';
+    await forge.replyToComment(context, `❌ **Splice Bot Error**\n\n${errorMessage}`);
+    result = { success: false, error: errorMessage };
+  }
+
+  logApiUsage(cache);
+  return result;
+}
+
+/**
+ * Handle merge request events: retarget the spliced merge requests stacked on merged ones,
+ * and bring spliced merge requests up to date when commits are pushed to their original
+ */
+export async function handleMergeRequestEvent(event: MergeRequestEvent, apiUrl: string, token: string): Promise<void> {
+  const mr = event.object_attributes;
+  const pushed = mr.action === 'update' && !!mr.oldrev;
+  if (event.object_kind !== 'merge_request' || (mr.action !== 'merge' && !pushed)) {
+    core.info('Merge request was neither merged nor pushed to, skipping');
+    return;
+  }
+
+  const { forge, cache } = createForge(apiUrl, token, event.project.id);
+  if (pushed) {
+    await syncSplices(forge, mr.iid, mr.last_commit.id, getGitLabAuthor(event.user));
+  } else if (mr.source_project_id === mr.target_project_id) {
+    // A branch of a fork only shares its name with the branch of this project
+    await retargetStackedSplices(forge, mr.source_branch, mr.target_branch);
+  }
+  logApiUsage(cache);
+}
+
+/**
+ * Read the body of a request
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serve the GitLab webhook for note and merge request events, configured through environment variables:
+ * GITLAB_TOKEN, GITLAB_API_URL, GITLAB_WEBHOOK_SECRET, PORT and the SPLICE_* policy settings
+ */
+async function serve(): Promise<void> {
+  const token = process.env.GITLAB_TOKEN;
+  const apiUrl = process.env.GITLAB_API_URL || 'https://gitlab.com/api/v4';
+  const secret = process.env.GITLAB_WEBHOOK_SECRET;
+  const port = parseInt(process.env.PORT || '8080', 10);
+  const policy = getWebhookPolicy();
+
+  if (!token) {
+    throw new Error('GITLAB_TOKEN is required');
+  }
+  // Without a secret anyone could post events and splice as the bot
+  if (!secret) {
+    throw new Error('GITLAB_WEBHOOK_SECRET is required');
+  }
+  const botUserId = await getCurrentUserId({ apiUrl, token });
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    if (req.headers['x-gitlab-token'] !== secret) {
+      res.writeHead(401).end();
+      return;
+    }
+    const eventName = req.headers['x-gitlab-event'];
+    if (eventName !== 'Note Hook' && eventName !== 'Merge Request Hook') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let event: NoteEvent | MergeRequestEvent;
+    try {
+      event = JSON.parse(await readBody(req));
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    // GitLab expects a quick response, the splice runs afterwards
+    res.writeHead(202).end();
+    try {
+      if (eventName === 'Merge Request Hook') {
+        await handleMergeRequestEvent(event as MergeRequestEvent, apiUrl, token);
+      } else {
+        const result = await handleNoteEvent(event as NoteEvent, apiUrl, token, botUserId, policy);
+        if (result && !result.success) {
+          core.error(result.error || 'Unknown error');
+        }
+      }
+    } catch (error) {
+      core.error(error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  });
+
+  server.listen(port, () => core.info(`Listening for GitLab note events on port ${port}`));
+}
+
+serve().catch(error => {
+  core.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+});